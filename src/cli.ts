@@ -4,24 +4,54 @@ import path from 'path';
 import fs from 'fs-extra';
 import { Listr, PRESET_TIMER } from 'listr2';
 import { downloadCourse, type DownloadMode } from './index.js';
+import type { SubtitleOptions, VideoQualityOptions } from './downloader.js';
+import { CONFIG_FILE, loadConfig, normalizeRetries, normalizeVideoQuality } from './config.js';
 import { login, getAuthStatus } from './auth.js';
 import { regenerateIndex } from './regenerate-index.js';
 import { regenerateGroupIndex } from './regenerate-group-index.js';
-import { Scraper, type CourseLibraryResult, type CourseListItem } from './scraper.js';
+import { regenerateLibrary } from './regenerate-library-index.js';
+import { rerenderCourse } from './rerender.js';
+import { DEFAULT_SERVE_PORT, startServer } from './serve.js';
+import { DEFAULT_RETRIES } from './retry.js';
+import { archiveCommunity } from './community.js';
+import { syncCourses } from './sync.js';
+import { planCourse, formatPlan, describeDownloadSize, type CoursePlan } from './plan.js';
+import { exportEpub } from './export-epub.js';
+import { exportMarkdown } from './export-markdown.js';
+import { exportPdf } from './export-pdf.js';
+import { exportPodcast } from './export-podcast.js';
+import { sanitizeName } from './library.js';
+import { Scraper, type CourseLibraryResult, type CourseListItem, type FetchMode } from './scraper.js';
 import type { Logger } from './logger.js';
 
 type CliArgs = {
-    command?: 'login' | 'download' | 'regenerate-index' | 'help';
+    command?: 'login' | 'download' | 'community' | 'sync' | 'export' | 'rerender' | 'serve' | 'regenerate-index' | 'help';
     url?: string;
     outputDir?: string;
     concurrency?: number;
     mode?: DownloadMode;
     lessonId?: string | null;
     regenerateDir?: string;
+    rerenderDir?: string;
+    serveDir?: string;
+    port?: number;
+    lan?: boolean;
+    exportFormat?: string;
+    exportDir?: string;
+    baseUrl?: string;
+    maxPages?: number;
+    comments?: boolean;
+    subtitles?: SubtitleOptions | null;
+    videoQuality?: VideoQualityOptions;
+    retries?: number;
+    fetchMode?: FetchMode;
+    dryRun?: boolean;
+    saveRaw?: boolean;
+    themeDir?: string;
 };
 
 function showHelp() {
-    console.log(`\nSkool Downloader\n\nUsage:\n  skool                          Interactive mode\n  skool login                    Log in to Skool\n  skool <classroom-url>          Download a course\n  skool <group-classroom-url>    Download all courses in a community\n  skool <lesson-url>             Download a single lesson (URL with ?md=)\n  skool regenerate-index         Regenerate all course indexes\n\nOptions:\n  -o, --output <dir>             Output directory (course root)\n  -c, --concurrency <number>     Lesson concurrency (default: 8)\n  --course                       Force course mode (ignore ?md=)\n  --lesson                       Force lesson mode\n  --lesson-id <id>               Explicit lesson id\n  -h, --help                     Show help\n`);
+    console.log(`\nSkool Downloader\n\nUsage:\n  skool                          Interactive mode\n  skool login                    Log in to Skool\n  skool <classroom-url>          Download a course\n  skool <group-classroom-url>    Download all courses in a community\n  skool <lesson-url>             Download a single lesson (URL with ?md=)\n  skool community <group-url>    Archive the community feed (posts and attachments)\n  skool sync [classroom-url]     Fetch only new or changed lessons (all downloaded courses if no URL)\n  skool export epub <course-dir> Build an EPUB book from a downloaded course (-o sets the file)\n  skool export pdf <course-dir>  Print lesson PDFs and a course PDF with contents and bookmarks\n  skool export markdown <course-dir> Write Obsidian-ready Markdown notes and a course note\n  skool export podcast <course-dir>  Extract lesson audio and write a podcast feed (-o sets the folder)\n  skool rerender <course-dir>    Rebuild lesson pages from saved data (offline)\n  skool serve [dir]              Serve the downloads folder over HTTP (default: downloads/)\n  skool regenerate-index         Regenerate all course indexes\n\nOptions:\n  -o, --output <dir>             Output directory (course root)\n  -c, --concurrency <number>     Lesson concurrency (default: 8)\n  --course                       Force course mode (ignore ?md=)\n  --lesson                       Force lesson mode\n  --lesson-id <id>               Explicit lesson id\n  --comments                     Also save lesson discussion threads\n  --subs                         Download captions as WebVTT next to each video\n  --sub-langs <list>             Caption languages, comma separated (default: en.*)\n  --no-auto-subs                 Skip auto-generated captions\n  --max-height <px>              Tallest video to download, e.g. 720\n  --codec <h264|vp9|av1>         Preferred video codec (h264 plays everywhere)\n  --max-bitrate <kbps>           Highest video bitrate\n  --max-filesize <MB>            Largest video file, where the source reports sizes\n  --audio-only                   Save lesson audio as .m4a instead of video\n  --max-pages <number>           Community feed pages to archive (default: 50)\n  --dry-run                      Print the download plan (lessons, videos, estimated size) without downloading the course\n  --retries <number>             Extra attempts after timeouts, 429 and 5xx errors (default: ${DEFAULT_RETRIES})\n  --http                         Fetch pages over plain HTTP with saved cookies (browser only for native videos)\n  --save-raw                     Also keep the full scraped data as lesson.raw.json and .course.raw.json\n  --theme <dir>                  Page theme folder for download, sync and rerender ("default" resets it)\n  --port <number>                Port for serve (default: ${DEFAULT_SERVE_PORT})\n  --lan                          Let other devices on your network reach serve\n  --base-url <url>               Address the podcast folder is served at, for feed links\n  -h, --help                     Show help\n\nDefaults can be kept in ${CONFIG_FILE}, e.g. { "video": { "maxHeight": 720, "codec": "h264" }, "retries": 4 }.\nFlags override it. Videos already on disk are kept when the video settings change.\n`);
 }
 
 function parseArgs(args: string[]): CliArgs {
@@ -34,6 +64,36 @@ function parseArgs(args: string[]): CliArgs {
             parsed.command = 'login';
             continue;
         }
+        if (arg === 'community') {
+            parsed.command = 'community';
+            continue;
+        }
+        if (arg === 'sync') {
+            parsed.command = 'sync';
+            continue;
+        }
+        if (arg === 'export') {
+            parsed.command = 'export';
+            parsed.exportFormat = args[i + 1];
+            parsed.exportDir = args[i + 2];
+            i += 2;
+            continue;
+        }
+        if (arg === 'rerender') {
+            parsed.command = 'rerender';
+            parsed.rerenderDir = args[i + 1];
+            i++;
+            continue;
+        }
+        if (arg === 'serve') {
+            parsed.command = 'serve';
+            const next = args[i + 1];
+            if (next && !next.startsWith('-')) {
+                parsed.serveDir = next;
+                i++;
+            }
+            continue;
+        }
         if (arg === 'regenerate-index') {
             parsed.command = 'regenerate-index';
             parsed.regenerateDir = args[i + 1];
@@ -51,6 +111,59 @@ function parseArgs(args: string[]): CliArgs {
             parsed.mode = 'lesson';
             continue;
         }
+        if (arg === '--comments') {
+            parsed.comments = true;
+            continue;
+        }
+        if (arg === '--subs') {
+            parsed.subtitles = { ...parsed.subtitles };
+            continue;
+        }
+        if (arg === '--sub-langs') {
+            const next = args[i + 1];
+            parsed.subtitles = {
+                ...parsed.subtitles,
+                languages: next ? next.split(',').map(lang => lang.trim()).filter(Boolean) : undefined
+            };
+            i++;
+            continue;
+        }
+        if (arg === '--no-auto-subs') {
+            parsed.subtitles = { ...parsed.subtitles, auto: false };
+            continue;
+        }
+        if (arg === '--audio-only') {
+            parsed.videoQuality = { ...parsed.videoQuality, audioOnly: true };
+            continue;
+        }
+        if (arg === '--codec') {
+            parsed.videoQuality = { ...parsed.videoQuality, codec: args[i + 1] as VideoQualityOptions['codec'] };
+            i++;
+            continue;
+        }
+        if (arg === '--max-height' || arg === '--max-bitrate' || arg === '--max-filesize') {
+            const next = args[i + 1];
+            const key = arg === '--max-height' ? 'maxHeight' : arg === '--max-bitrate' ? 'maxBitrateKbps' : 'maxFileSizeMb';
+            parsed.videoQuality = { ...parsed.videoQuality, [key]: next ? Number.parseFloat(next) : undefined };
+            i++;
+            continue;
+        }
+        if (arg === '--dry-run') {
+            parsed.dryRun = true;
+            continue;
+        }
+        if (arg === '--http') {
+            parsed.fetchMode = 'http';
+            continue;
+        }
+        if (arg === '--save-raw') {
+            parsed.saveRaw = true;
+            continue;
+        }
+        if (arg === '--lan') {
+            parsed.lan = true;
+            continue;
+        }
         if (arg === '--lesson-id') {
             parsed.lessonId = args[i + 1];
             i++;
@@ -61,6 +174,34 @@ function parseArgs(args: string[]): CliArgs {
             i++;
             continue;
         }
+        if (arg === '--theme') {
+            parsed.themeDir = args[i + 1];
+            i++;
+            continue;
+        }
+        if (arg === '--base-url') {
+            parsed.baseUrl = args[i + 1];
+            i++;
+            continue;
+        }
+        if (arg === '--port') {
+            const next = args[i + 1];
+            parsed.port = next ? Number.parseInt(next, 10) : undefined;
+            i++;
+            continue;
+        }
+        if (arg === '--retries') {
+            const next = args[i + 1];
+            parsed.retries = next ? Number.parseInt(next, 10) : undefined;
+            i++;
+            continue;
+        }
+        if (arg === '--max-pages') {
+            const next = args[i + 1];
+            parsed.maxPages = next ? Number.parseInt(next, 10) : undefined;
+            i++;
+            continue;
+        }
         if (arg === '-c' || arg === '--concurrency') {
             const next = args[i + 1];
             parsed.concurrency = next ? Number.parseInt(next, 10) : undefined;
@@ -69,7 +210,7 @@ function parseArgs(args: string[]): CliArgs {
         }
         if (!parsed.url && arg.startsWith('http')) {
             parsed.url = arg;
-            parsed.command = 'download';
+            if (!parsed.command) parsed.command = 'download';
             continue;
         }
     }
@@ -104,10 +245,6 @@ function formatExpiry(expiresAt?: Date) {
     return expiresAt.toLocaleString();
 }
 
-function sanitizeName(value: string) {
-    return value.replace(/[/\\?%*:|"<>]/g, '-');
-}
-
 function isClassroomRootUrl(value: string) {
     try {
         const url = new URL(value);
@@ -183,8 +320,8 @@ function createTaskRunner() {
     };
 }
 
-async function fetchCourseLibrary(url: string, logger: Logger): Promise<CourseLibraryResult> {
-    const scraper = new Scraper(logger);
+async function fetchCourseLibrary(url: string, logger: Logger, fetchMode?: FetchMode): Promise<CourseLibraryResult> {
+    const scraper = new Scraper(logger, { fetchMode });
     try {
         return await scraper.parseCourseLibrary(url);
     } finally {
@@ -192,6 +329,43 @@ async function fetchCourseLibrary(url: string, logger: Logger): Promise<CourseLi
     }
 }
 
+/**
+ * Builds dry-run plans for each course one after another and prints them with a grand total.
+ */
+async function planCourses(
+    targets: Array<{ url: string; outputDir?: string; mode?: DownloadMode; lessonId?: string | null }>,
+    options: { concurrency?: number; fetchMode?: FetchMode; videoQuality?: VideoQualityOptions; logger: Logger; print: (message: string) => void }
+): Promise<CoursePlan[]> {
+    const plans: CoursePlan[] = [];
+    for (const target of targets) {
+        try {
+            const plan = await planCourse({
+                url: target.url,
+                outputDir: target.outputDir,
+                mode: target.mode,
+                lessonId: target.lessonId,
+                concurrency: options.concurrency,
+                fetchMode: options.fetchMode,
+                videoQuality: options.videoQuality,
+                logger: options.logger
+            });
+            plans.push(plan);
+            options.print(formatPlan(plan));
+        } catch (err) {
+            options.logger.error(`Failed to plan ${target.url}: ${String(err)}`);
+        }
+    }
+
+    if (plans.length > 1) {
+        const totalBytes = plans.reduce((sum, plan) => sum + plan.estimatedBytes, 0);
+        const totalLessons = plans.reduce((sum, plan) => sum + plan.lessonsCount, 0);
+        const presentLessons = plans.reduce((sum, plan) => sum + plan.presentLessons, 0);
+        const unknownSizeVideos = plans.reduce((sum, plan) => sum + plan.unknownSizeVideos, 0);
+        options.print(`Total: ${plans.length} courses · ${totalLessons} lessons · ${presentLessons} already present · ${describeDownloadSize(totalBytes, unknownSizeVideos)}`);
+    }
+    return plans;
+}
+
 function buildCourseHint(course: CourseListItem) {
     const parts: string[] = [];
     if (course.numModules) {
@@ -217,7 +391,8 @@ function resolveCourseOutputDir(outputRoot: string, groupName: string, courseNam
     return path.join(outputRoot, sanitizeName(groupName), sanitizeName(courseName));
 }
 
-async function runInteractive() {
+async function runInteractive(defaults: Pick<CliArgs, 'videoQuality' | 'retries'> = {}) {
+    const { videoQuality, retries } = defaults;
     intro(pc.cyan('Skool Downloader'));
 
     const action = await select({
@@ -226,13 +401,14 @@ async function runInteractive() {
             { value: 'download-course', label: 'Download a full course' },
             { value: 'download-multi', label: 'Download multiple courses' },
             { value: 'download-lesson', label: 'Download a single lesson' },
+            { value: 'archive-community', label: 'Archive the community feed' },
             { value: 'login', label: 'Log in to Skool' },
             { value: 'regenerate-index', label: 'Regenerate all course indexes' },
             { value: 'exit', label: 'Exit' }
         ]
     });
     handleCancel(action);
-    const actionValue = action as 'download-course' | 'download-multi' | 'download-lesson' | 'login' | 'regenerate-index' | 'exit';
+    const actionValue = action as 'download-course' | 'download-multi' | 'download-lesson' | 'archive-community' | 'login' | 'regenerate-index' | 'exit';
 
     if (actionValue === 'exit') {
         outro('See you next time.');
@@ -279,6 +455,69 @@ async function runInteractive() {
     const interactiveLogger = buildInteractiveLogger();
     const runTasks = createTaskRunner();
 
+    let includeComments = false;
+    if (actionValue !== 'archive-community') {
+        const commentsChoice = await confirm({
+            message: 'Include lesson discussion threads (comments)?',
+            initialValue: false
+        });
+        handleCancel(commentsChoice);
+        includeComments = commentsChoice === true;
+    }
+
+    let subtitles: SubtitleOptions | null = null;
+    if (actionValue !== 'archive-community') {
+        const subtitlesChoice = await confirm({
+            message: 'Download captions/subtitles for videos?',
+            initialValue: false
+        });
+        handleCancel(subtitlesChoice);
+
+        if (subtitlesChoice === true) {
+            const languagesInput = await text({
+                message: 'Caption languages (comma separated)',
+                placeholder: 'en.*',
+                defaultValue: 'en.*'
+            });
+            handleCancel(languagesInput);
+            const languages = String(languagesInput).split(',').map(lang => lang.trim()).filter(Boolean);
+            subtitles = { languages };
+        }
+    }
+
+    if (actionValue === 'archive-community') {
+        const urlInput = await text({
+            message: 'Community URL',
+            placeholder: 'https://www.skool.com/community',
+            validate(value) {
+                if (!value || !value.startsWith('http')) return 'Please enter a valid URL.';
+                return undefined;
+            }
+        });
+        handleCancel(urlInput);
+
+        const communitySpinner = spinner();
+        communitySpinner.start('Archiving community feed...');
+        try {
+            const summary = await archiveCommunity({
+                url: String(urlInput).trim(),
+                retries,
+                logger: interactiveLogger
+            });
+            communitySpinner.stop(`Archived ${summary.archivedPosts} of ${summary.postsCount} posts.`);
+            if (summary.failedPosts > 0) {
+                log.warn(`${summary.failedPosts} posts had errors. You can rerun the archive to fill gaps.`);
+            }
+            outro('Community archived.');
+            console.log(`Files are ready at:\n${summary.outputDir}`);
+        } catch (err) {
+            communitySpinner.stop('Failed to archive community.');
+            log.error(`Unable to archive community: ${String(err)}`);
+            outro('Could not archive community.');
+        }
+        return;
+    }
+
     if (actionValue === 'download-multi') {
         const urlInput = await text({
             message: 'Community classroom URL',
@@ -350,6 +589,35 @@ async function runInteractive() {
             return;
         }
 
+        const previewChoice = await confirm({
+            message: 'Preview the download plan (lessons present locally, estimated size) first?',
+            initialValue: false
+        });
+        handleCancel(previewChoice);
+
+        if (previewChoice === true) {
+            const planSpinner = spinner();
+            planSpinner.start('Inspecting lessons...');
+            const plans = await planCourses(
+                selectedCourses.map(course => ({
+                    url: course.url,
+                    outputDir: outputRoot ? resolveCourseOutputDir(outputRoot, library.groupName, course.title) : undefined
+                })),
+                { concurrency, videoQuality, logger: interactiveLogger, print: message => log.message(message) }
+            );
+            planSpinner.stop(`Planned ${plans.length} of ${selectedCourses.length} courses.`);
+
+            const proceed = await confirm({
+                message: 'Start the download?',
+                initialValue: true
+            });
+            handleCancel(proceed);
+            if (proceed !== true) {
+                outro('Nothing downloaded.');
+                return;
+            }
+        }
+
         let failedCourses = 0;
 
         for (const course of selectedCourses) {
@@ -360,6 +628,10 @@ async function runInteractive() {
                     outputDir: outputRoot ? resolveCourseOutputDir(outputRoot, library.groupName, course.title) : undefined,
                     concurrency,
                     mode: 'course',
+                    comments: includeComments,
+                    subtitles,
+                    videoQuality,
+                    retries,
                     logger: interactiveLogger,
                     suppressIndexLogs: true,
                     runTasks,
@@ -414,6 +686,10 @@ async function runInteractive() {
         concurrency: actionValue === 'download-lesson' ? 1 : concurrency,
         mode: actionValue === 'download-lesson' ? 'lesson' : 'course',
         lessonId,
+        comments: includeComments,
+        subtitles,
+        videoQuality,
+        retries,
         logger: interactiveLogger,
         suppressIndexLogs: true,
         runTasks,
@@ -428,7 +704,7 @@ async function runInteractive() {
                 if (lessonDestination) {
                     log.info(`Lesson folder: ${lessonDestination.lessonOutputDir}`);
                     log.info(`Lesson page: ${path.join(lessonDestination.lessonOutputDir, 'index.html')}`);
-                    log.info('Lesson assets: video.mp4 (if present) and resources/ folder');
+                    log.info('Lesson assets: video.mp4 and video-N.mp4 for embedded players (if present) and resources/ folder');
                 }
             }
         }
@@ -444,41 +720,17 @@ async function runInteractive() {
 
 async function regenerateAllIndexes() {
     const downloadsRoot = path.join(process.cwd(), 'downloads');
-    const rootExists = await fs.pathExists(downloadsRoot);
-    if (!rootExists) {
+    if (!await fs.pathExists(downloadsRoot)) {
         console.log(`Downloads folder not found: ${downloadsRoot}`);
         return;
     }
 
-    const groupEntries = await fs.readdir(downloadsRoot, { withFileTypes: true });
-    const groupDirs = groupEntries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
-
-    if (groupDirs.length === 0) {
+    const { courses, groups } = await regenerateLibrary(downloadsRoot);
+    if (groups === 0) {
         console.log('No group folders found to regenerate.');
         return;
     }
-
-    let regeneratedCourses = 0;
-    let regeneratedGroups = 0;
-
-    for (const groupDir of groupDirs) {
-        const groupPath = path.join(downloadsRoot, groupDir.name);
-        const courseEntries = await fs.readdir(groupPath, { withFileTypes: true });
-        const courseDirs = courseEntries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
-
-        if (courseDirs.length === 0) continue;
-
-        for (const courseDir of courseDirs) {
-            const coursePath = path.join(groupPath, courseDir.name);
-            await regenerateIndex(coursePath, { silent: true });
-            regeneratedCourses += 1;
-        }
-
-        await regenerateGroupIndex(groupPath, { silent: true });
-        regeneratedGroups += 1;
-    }
-
-    console.log(`Regenerated ${regeneratedCourses} course indexes across ${regeneratedGroups} groups.`);
+    console.log(`Regenerated ${courses} course indexes across ${groups} groups.`);
 }
 
 async function runWithArgs(args: CliArgs) {
@@ -492,6 +744,25 @@ async function runWithArgs(args: CliArgs) {
         return;
     }
 
+    if (args.command === 'rerender') {
+        if (!args.rerenderDir) {
+            console.log('Usage: skool rerender <course-dir>');
+            return;
+        }
+        await rerenderCourse(path.resolve(args.rerenderDir), { themeDir: args.themeDir });
+        return;
+    }
+
+    if (args.command === 'serve') {
+        await startServer({
+            rootDir: args.serveDir ? path.resolve(args.serveDir) : undefined,
+            port: args.port,
+            lan: args.lan
+        });
+        console.log('Press Ctrl+C to stop.');
+        return;
+    }
+
     if (args.command === 'regenerate-index') {
         if (!args.regenerateDir) {
             await regenerateAllIndexes();
@@ -503,6 +774,76 @@ async function runWithArgs(args: CliArgs) {
         return;
     }
 
+    if (args.command === 'community') {
+        if (!args.url) {
+            console.log('Usage: skool community <group-url>');
+            return;
+        }
+        const loggedIn = await ensureLogin();
+        if (!loggedIn) {
+            console.log('Login required. Exiting.');
+            return;
+        }
+        await archiveCommunity({
+            url: args.url,
+            outputDir: args.outputDir,
+            concurrency: args.concurrency,
+            maxPages: args.maxPages,
+            fetchMode: args.fetchMode,
+            retries: args.retries
+        });
+        return;
+    }
+
+    if (args.command === 'export') {
+        if (args.exportFormat === 'md') args.exportFormat = 'markdown';
+        if (!args.exportDir || !['epub', 'pdf', 'markdown', 'podcast'].includes(args.exportFormat ?? '')) {
+            console.log('Usage: skool export <epub|pdf|markdown|podcast> <course-dir> [-o <file>] [--base-url <url>]');
+            return;
+        }
+        if (args.exportFormat === 'markdown') {
+            await exportMarkdown(path.resolve(args.exportDir));
+            return;
+        }
+        if (args.exportFormat === 'podcast') {
+            await exportPodcast(path.resolve(args.exportDir), {
+                outputDir: args.outputDir ? path.resolve(args.outputDir) : undefined,
+                baseUrl: args.baseUrl
+            });
+            return;
+        }
+        const exportOptions = {
+            outputPath: args.outputDir ? path.resolve(args.outputDir) : undefined
+        };
+        if (args.exportFormat === 'pdf') {
+            await exportPdf(path.resolve(args.exportDir), exportOptions);
+        } else {
+            await exportEpub(path.resolve(args.exportDir), exportOptions);
+        }
+        return;
+    }
+
+    if (args.command === 'sync') {
+        const loggedIn = await ensureLogin();
+        if (!loggedIn) {
+            console.log('Login required. Exiting.');
+            return;
+        }
+        await syncCourses({
+            url: args.url,
+            outputDir: args.outputDir,
+            concurrency: args.concurrency,
+            comments: args.comments,
+            subtitles: args.subtitles,
+            videoQuality: args.videoQuality,
+            retries: args.retries,
+            fetchMode: args.fetchMode,
+            saveRaw: args.saveRaw,
+            themeDir: args.themeDir
+        });
+        return;
+    }
+
     if (args.command === 'download' && args.url) {
         const loggedIn = await ensureLogin();
         if (!loggedIn) {
@@ -511,7 +852,7 @@ async function runWithArgs(args: CliArgs) {
         }
         if (isClassroomRootUrl(args.url)) {
             const logger = buildInteractiveLogger();
-            const library = await fetchCourseLibrary(args.url, logger);
+            const library = await fetchCourseLibrary(args.url, logger, args.fetchMode);
             const outputRoot = args.outputDir && args.outputDir !== 'undefined' ? args.outputDir : undefined;
             let failedCourses = 0;
             const { accessible, locked } = filterAccessibleCourses(library.courses);
@@ -525,13 +866,31 @@ async function runWithArgs(args: CliArgs) {
                 return;
             }
 
+            if (args.dryRun) {
+                await planCourses(
+                    accessible.map(course => ({
+                        url: course.url,
+                        outputDir: outputRoot ? resolveCourseOutputDir(outputRoot, library.groupName, course.title) : undefined
+                    })),
+                    { concurrency: args.concurrency, fetchMode: args.fetchMode, videoQuality: args.videoQuality, logger, print: message => console.log(message) }
+                );
+                return;
+            }
+
             for (const course of accessible) {
                 try {
                     await downloadCourse({
                         url: course.url,
                         outputDir: outputRoot ? resolveCourseOutputDir(outputRoot, library.groupName, course.title) : undefined,
                         concurrency: args.concurrency,
-                        mode: 'course'
+                        mode: 'course',
+                        comments: args.comments,
+                        subtitles: args.subtitles,
+                        videoQuality: args.videoQuality,
+                        retries: args.retries,
+                        fetchMode: args.fetchMode,
+                        saveRaw: args.saveRaw,
+                        themeDir: args.themeDir
                     });
                 } catch (err) {
                     failedCourses += 1;
@@ -545,21 +904,42 @@ async function runWithArgs(args: CliArgs) {
             return;
         }
 
+        if (args.dryRun) {
+            await planCourses(
+                [{ url: args.url, outputDir: args.outputDir, mode: args.mode, lessonId: args.lessonId }],
+                { concurrency: args.concurrency, fetchMode: args.fetchMode, videoQuality: args.videoQuality, logger: buildInteractiveLogger(), print: message => console.log(message) }
+            );
+            return;
+        }
+
         await downloadCourse({
             url: args.url,
             outputDir: args.outputDir,
             concurrency: args.concurrency,
             mode: args.mode,
-            lessonId: args.lessonId
+            lessonId: args.lessonId,
+            comments: args.comments,
+            subtitles: args.subtitles,
+            videoQuality: args.videoQuality,
+            retries: args.retries,
+            fetchMode: args.fetchMode,
+            saveRaw: args.saveRaw,
+            themeDir: args.themeDir
         });
         return;
     }
 
-    await runInteractive();
+    await runInteractive(args);
 }
 
 async function main() {
     const args = parseArgs(process.argv.slice(2));
+    const config = await loadConfig();
+    args.videoQuality = {
+        ...config.video,
+        ...normalizeVideoQuality(args.videoQuality, 'Command line')
+    };
+    args.retries = normalizeRetries(args.retries, 'Command line') ?? config.retries;
     await runWithArgs(args);
 }
 
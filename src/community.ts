@@ -0,0 +1,381 @@
+import fs from 'fs-extra';
+import path from 'path';
+import pLimit from 'p-limit';
+import { Scraper, type CommunityAttachment, type CommunityPost, type FetchMode } from './scraper.js';
+import { Downloader } from './downloader.js';
+import { regenerateCommunityIndex } from './regenerate-community-index.js';
+import { regenerateGroupIndex } from './regenerate-group-index.js';
+import { regenerateLibraryIndex } from './regenerate-library-index.js';
+import { isLibraryDir, sanitizeName, writeAtomicJson } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { escapeHtml } from './tiptap.js';
+
+export const COMMUNITY_DIR_NAME = 'community';
+export const COMMUNITY_MANIFEST_NAME = '.community.json';
+
+const DEFAULT_CONCURRENCY = 4;
+
+export type CommunityManifest = {
+    groupName: string;
+    groupUrl: string;
+    postsCount: number;
+    updatedAt: string;
+};
+
+export type PostManifest = {
+    postId: string;
+    title: string;
+    url: string;
+    postDirName: string;
+    author: {
+        name: string;
+        handle?: string;
+        avatarPath?: string;
+    };
+    createdAt?: string;
+    updatedAt?: string;
+    pinned: boolean;
+    category?: string;
+    likes?: number;
+    commentsCount?: number;
+    excerpt: string;
+    attachments: Array<{
+        title: string;
+        path?: string;
+        url?: string;
+        isImage?: boolean;
+        isExternal?: boolean;
+    }>;
+    archivedAt: string;
+};
+
+export type CommunityArchiveOptions = {
+    url: string;
+    outputDir?: string;
+    maxPages?: number;
+    concurrency?: number;
+    fetchMode?: FetchMode;
+    /** Extra attempts for pages and downloads that fail with a transient error. */
+    retries?: number;
+    logger?: Logger;
+};
+
+export type CommunityArchiveSummary = {
+    groupName: string;
+    outputDir: string;
+    postsCount: number;
+    archivedPosts: number;
+    failedPosts: number;
+};
+
+function buildPostDirName(post: CommunityPost) {
+    const datePrefix = post.createdAt ? post.createdAt.slice(0, 10) : 'undated';
+    const slug = sanitizeName(post.slug || post.id).slice(0, 80);
+    return `${datePrefix}-${slug}`;
+}
+
+function stripTags(html: string) {
+    return html
+        .replace(/<br\s*\/?>/g, ' ')
+        .replace(/<\/(p|li|h\d|blockquote)>/g, ' ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&amp;/g, '&')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+export function isCommunityArchiveDir(dirPath: string) {
+    return fs.existsSync(path.join(dirPath, COMMUNITY_MANIFEST_NAME));
+}
+
+async function archivePost(
+    post: CommunityPost,
+    postsDir: string,
+    groupName: string,
+    downloader: Downloader,
+    logger: Logger
+): Promise<PostManifest> {
+    const postDirName = buildPostDirName(post);
+    const postDir = path.join(postsDir, postDirName);
+    await fs.ensureDir(postDir);
+
+    const attachmentEntries: PostManifest['attachments'] = [];
+    const imageAttachments: CommunityAttachment[] = [];
+
+    for (const attachment of post.attachments) {
+        if (!attachment.downloadUrl) continue;
+
+        if (attachment.isExternal) {
+            attachmentEntries.push({ title: attachment.title, url: attachment.downloadUrl, isExternal: true });
+            continue;
+        }
+
+        if (attachment.isImage) {
+            imageAttachments.push(attachment);
+            continue;
+        }
+
+        const safeFileName = sanitizeName(attachment.fileName || attachment.title);
+        const attachmentPath = path.join(postDir, 'attachments', safeFileName);
+        try {
+            await downloader.downloadAsset(attachment.downloadUrl, attachmentPath);
+            attachmentEntries.push({
+                title: attachment.title,
+                path: `attachments/${encodeURIComponent(safeFileName)}`
+            });
+        } catch (err) {
+            logger.warn(`    ⚠️  Failed to download attachment ${attachment.title}: ${String(err)}`);
+            attachmentEntries.push({ title: attachment.title, url: attachment.downloadUrl });
+        }
+    }
+
+    // Avatar and image attachments go through the same localization as the post body
+    const avatarHtml = post.author.avatarUrl
+        ? `<img class="avatar" src="${escapeHtml(post.author.avatarUrl)}" alt="${escapeHtml(post.author.name)}" />`
+        : `<div class="avatar avatar-fallback">${escapeHtml(post.author.name.charAt(0).toUpperCase())}</div>`;
+    const galleryHtml = imageAttachments
+        .map(image => `<img src="${escapeHtml(image.downloadUrl!)}" alt="${escapeHtml(image.title)}" />`)
+        .join('');
+
+    const localizedAvatar = await downloader.localizeImages(avatarHtml, postDir);
+    const localizedContent = await downloader.localizeImages(post.contentHtml, postDir);
+    const localizedGallery = await downloader.localizeImages(galleryHtml, postDir);
+
+    const avatarPath = /<img[^>]+src="(assets\/[^"]+)"/.exec(localizedAvatar)?.[1];
+    const gallerySources = Array.from(localizedGallery.matchAll(/<img src="([^"]+)"/g), match => match[1]);
+    imageAttachments.forEach((image, index) => {
+        attachmentEntries.push({ title: image.title, path: gallerySources[index], isImage: true });
+    });
+
+    const createdLabel = post.createdAt ? new Date(post.createdAt).toLocaleString() : 'Unknown date';
+    const attachmentsHtml = attachmentEntries
+        .filter(entry => !entry.isImage)
+        .map(entry => {
+            const href = entry.path || entry.url || '#';
+            const suffix = entry.isExternal ? ' (External)' : '';
+            return `<li><a href="${escapeHtml(href)}" target="_blank">${escapeHtml(entry.title)}${suffix}</a></li>`;
+        })
+        .join('');
+
+    const htmlContent = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1">
+            <title>${escapeHtml(post.title)}</title>
+            <style>
+                :root {
+                    --panel: #ffffff;
+                    --panel-2: #f6f7fb;
+                    --text: #14161d;
+                    --muted: #5b6271;
+                    --accent: #3b82f6;
+                    --ring: rgba(20,22,29,0.08);
+                }
+                * { box-sizing: border-box; }
+                body {
+                    margin: 0;
+                    font-family: "Space Grotesk", "Manrope", "Segoe UI", sans-serif;
+                    background: linear-gradient(160deg, #fdfdfd 0%, #eff2fb 100%);
+                    color: var(--text);
+                    line-height: 1.7;
+                }
+                .page { max-width: 860px; margin: 48px auto 80px; padding: 0 22px; }
+                .breadcrumb {
+                    font-size: 0.95rem;
+                    color: var(--muted);
+                    margin-bottom: 16px;
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    align-items: center;
+                }
+                .breadcrumb a { color: var(--accent); text-decoration: none; font-weight: 600; }
+                .container {
+                    background: var(--panel);
+                    padding: 34px;
+                    border-radius: 20px;
+                    border: 1px solid rgba(20,22,29,0.05);
+                    box-shadow:
+                        0 25px 45px rgba(15, 23, 42, 0.18),
+                        0 10px 20px rgba(15, 23, 42, 0.08);
+                }
+                .author { display: flex; align-items: center; gap: 12px; margin-bottom: 18px; }
+                .avatar { width: 44px; height: 44px; border-radius: 50%; object-fit: cover; margin: 0; }
+                .avatar-fallback {
+                    display: grid;
+                    place-items: center;
+                    background: var(--panel-2);
+                    border: 1px solid var(--ring);
+                    font-weight: 700;
+                    color: var(--accent);
+                }
+                .author-name { font-weight: 700; }
+                .author-meta { color: var(--muted); font-size: 0.9rem; }
+                .pinned {
+                    display: inline-block;
+                    font-size: 0.8rem;
+                    font-weight: 700;
+                    padding: 2px 10px;
+                    border-radius: 999px;
+                    background: rgba(59,130,246,0.12);
+                    color: var(--accent);
+                    margin-bottom: 10px;
+                }
+                h1 { margin: 0 0 16px 0; font-size: clamp(1.6rem, 3vw, 2.2rem); }
+                img { max-width: 100%; border-radius: 10px; height: auto; margin: 14px 0; }
+                .gallery { display: grid; gap: 12px; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); }
+                .attachments {
+                    background: var(--panel-2);
+                    padding: 18px;
+                    border-radius: 14px;
+                    border: 1px solid var(--ring);
+                    margin-top: 28px;
+                }
+                .attachments h3 { margin: 0 0 10px 0; color: var(--accent); }
+                .attachments ul { list-style: none; padding: 0; margin: 0; display: grid; gap: 8px; }
+                .attachments a::before { content: "📁 "; }
+                a { color: var(--accent); text-decoration: none; word-break: break-word; }
+                a:hover { text-decoration: underline; }
+                .stats { margin-top: 24px; color: var(--muted); font-size: 0.9rem; display: flex; gap: 16px; }
+            </style>
+        </head>
+        <body>
+            <div class="page">
+                <div class="breadcrumb">
+                    <a href="../../../index.html">${escapeHtml(groupName)}</a>
+                    <span>/</span>
+                    <a href="../../index.html">Community</a>
+                    <span>/</span>
+                    <span>${escapeHtml(post.title)}</span>
+                </div>
+                <article class="container">
+                    ${post.pinned ? '<div class="pinned">📌 Pinned</div>' : ''}
+                    <h1>${escapeHtml(post.title)}</h1>
+                    <div class="author">
+                        ${localizedAvatar}
+                        <div>
+                            <div class="author-name">${escapeHtml(post.author.name)}</div>
+                            <div class="author-meta">${escapeHtml(createdLabel)}${post.category ? ` · ${escapeHtml(post.category)}` : ''}</div>
+                        </div>
+                    </div>
+                    <div class="content">
+                        ${localizedContent}
+                    </div>
+                    ${localizedGallery ? `<div class="gallery">${localizedGallery}</div>` : ''}
+                    ${attachmentsHtml ? `
+                    <div class="attachments">
+                        <h3>Attachments</h3>
+                        <ul>${attachmentsHtml}</ul>
+                    </div>
+                    ` : ''}
+                    <div class="stats">
+                        <span>👍 ${post.likes ?? 0}</span>
+                        <span>💬 ${post.commentsCount ?? 0}</span>
+                        <a href="${escapeHtml(post.url)}" target="_blank">View on Skool</a>
+                    </div>
+                </article>
+            </div>
+        </body>
+        </html>
+    `;
+
+    await fs.writeFile(path.join(postDir, 'index.html'), htmlContent);
+
+    const excerpt = stripTags(post.contentHtml);
+    const manifest: PostManifest = {
+        postId: post.id,
+        title: post.title,
+        url: post.url,
+        postDirName,
+        author: {
+            name: post.author.name,
+            handle: post.author.handle,
+            avatarPath
+        },
+        createdAt: post.createdAt,
+        updatedAt: post.updatedAt,
+        pinned: post.pinned,
+        category: post.category,
+        likes: post.likes,
+        commentsCount: post.commentsCount,
+        excerpt: excerpt.length > 280 ? `${excerpt.slice(0, 277)}...` : excerpt,
+        attachments: attachmentEntries,
+        archivedAt: new Date().toISOString()
+    };
+
+    await writeAtomicJson(path.join(postDir, 'post.json'), manifest);
+    return manifest;
+}
+
+export async function archiveCommunity(options: CommunityArchiveOptions): Promise<CommunityArchiveSummary> {
+    const logger = options.logger ?? createConsoleLogger();
+    const concurrency = options.concurrency && options.concurrency > 0 ? options.concurrency : DEFAULT_CONCURRENCY;
+
+    const scraper = new Scraper(logger, { fetchMode: options.fetchMode, retries: options.retries });
+    const downloader = new Downloader(logger, { retries: options.retries });
+
+    try {
+        logger.info('🚀 Fetching community feed...');
+        const feed = await scraper.parseCommunityFeed(options.url, { maxPages: options.maxPages });
+
+        const outputOverride =
+            options.outputDir && options.outputDir !== 'undefined'
+                ? options.outputDir
+                : undefined;
+        const communityDir = outputOverride || path.join(
+            process.cwd(),
+            'downloads',
+            sanitizeName(feed.groupName),
+            COMMUNITY_DIR_NAME
+        );
+        const postsDir = path.join(communityDir, 'posts');
+        await fs.ensureDir(postsDir);
+
+        const limit = pLimit(concurrency);
+        let archivedPosts = 0;
+        let failedPosts = 0;
+
+        await Promise.all(feed.posts.map(post => limit(async () => {
+            logger.info(`\n  📰 Archiving post: ${post.title}`);
+            try {
+                await archivePost(post, postsDir, feed.groupName, downloader, logger);
+                archivedPosts += 1;
+            } catch (err) {
+                failedPosts += 1;
+                logger.error(`    ⚠️ Error archiving post ${post.title}: ${String(err)}`);
+            }
+        })));
+
+        const manifest: CommunityManifest = {
+            groupName: feed.groupName,
+            groupUrl: feed.groupUrl,
+            postsCount: feed.posts.length,
+            updatedAt: new Date().toISOString()
+        };
+        await writeAtomicJson(path.join(communityDir, COMMUNITY_MANIFEST_NAME), manifest);
+
+        await regenerateCommunityIndex(communityDir, { silent: true });
+        await regenerateGroupIndex(path.dirname(communityDir), { silent: true });
+        if (isLibraryDir(path.dirname(path.dirname(communityDir)))) {
+            await regenerateLibraryIndex(path.dirname(path.dirname(communityDir)), { silent: true });
+        }
+
+        logger.info('\n✨ Community archive complete!');
+        logger.info(`Check your files in: ${communityDir}`);
+
+        return {
+            groupName: feed.groupName,
+            outputDir: communityDir,
+            postsCount: feed.posts.length,
+            archivedPosts,
+            failedPosts
+        };
+    } finally {
+        await scraper.close();
+    }
+}
@@ -0,0 +1,79 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { VIDEO_CODECS, type VideoCodec, type VideoQualityOptions } from './downloader.js';
+
+/** Optional settings file in the working directory; command-line flags override it. */
+export const CONFIG_FILE = 'skool.config.json';
+
+export type SkoolConfig = {
+    video?: VideoQualityOptions;
+    /** Extra attempts for pages and downloads that fail with a transient error. */
+    retries?: number;
+};
+
+function positiveNumber(value: unknown, name: string, source: string): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+        throw new Error(`${source}: ${name} must be a positive number`);
+    }
+    return value;
+}
+
+/**
+ * Checks quality settings from the config file or the command line and drops unset fields, so
+ * spreading flags over the config only overrides what was given.
+ */
+export function normalizeVideoQuality(value: unknown, source: string): VideoQualityOptions {
+    if (value === undefined || value === null) return {};
+    if (typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`${source}: video settings must be an object`);
+    }
+
+    const raw = value as Record<string, unknown>;
+    if (raw.codec !== undefined && !VIDEO_CODECS.includes(raw.codec as VideoCodec)) {
+        throw new Error(`${source}: codec must be one of ${VIDEO_CODECS.join(', ')}`);
+    }
+    if (raw.audioOnly !== undefined && typeof raw.audioOnly !== 'boolean') {
+        throw new Error(`${source}: audioOnly must be true or false`);
+    }
+
+    const quality: VideoQualityOptions = {
+        maxHeight: positiveNumber(raw.maxHeight, 'maxHeight', source),
+        codec: raw.codec as VideoCodec | undefined,
+        maxBitrateKbps: positiveNumber(raw.maxBitrateKbps, 'maxBitrateKbps', source),
+        maxFileSizeMb: positiveNumber(raw.maxFileSizeMb, 'maxFileSizeMb', source),
+        audioOnly: raw.audioOnly as boolean | undefined
+    };
+    return Object.fromEntries(
+        Object.entries(quality).filter(([, setting]) => setting !== undefined)
+    ) as VideoQualityOptions;
+}
+
+export function normalizeRetries(value: unknown, source: string): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+        throw new Error(`${source}: retries must be a whole number of 0 or more`);
+    }
+    return value;
+}
+
+/** Reads `skool.config.json` from `dir`; a missing file means no settings. */
+export async function loadConfig(dir: string = process.cwd()): Promise<SkoolConfig> {
+    const configPath = path.join(dir, CONFIG_FILE);
+    if (!await fs.pathExists(configPath)) return {};
+
+    let raw: any;
+    try {
+        raw = await fs.readJson(configPath);
+    } catch (err) {
+        throw new Error(`Could not read ${CONFIG_FILE}: ${String(err)}`);
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error(`${CONFIG_FILE} must contain a JSON object`);
+    }
+
+    return {
+        video: normalizeVideoQuality(raw.video, CONFIG_FILE),
+        retries: normalizeRetries(raw.retries, CONFIG_FILE)
+    };
+}
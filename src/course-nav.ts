@@ -0,0 +1,137 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/** Script written next to a course's `index.html`; lesson pages read the course tree from it. */
+export const COURSE_NAV_FILE = 'course-nav.js';
+
+export type CourseNavModule = {
+    title: string;
+    lessons: Array<{
+        title: string;
+        /** Lesson page relative to the course folder, e.g. `1-Module/1-Lesson/index.html`. */
+        path: string;
+    }>;
+};
+
+function encodePath(relativePath: string) {
+    return relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+/**
+ * Writes `course-nav.js` with the downloaded lessons in course order. Lesson pages build their
+ * previous/next links and sidebar from it, so pages saved before other lessons were downloaded
+ * still link to every lesson on disk.
+ */
+export async function writeCourseNav(courseDir: string, courseName: string, modules: CourseNavModule[]) {
+    const payload = JSON.stringify({
+        course: courseName,
+        modules: modules.map(module => ({
+            title: module.title,
+            lessons: module.lessons.map(lesson => ({ title: lesson.title, href: encodePath(lesson.path) }))
+        }))
+    })
+        // Keep the payload from closing the script element it is loaded into
+        .replace(/<\//g, '<\\/');
+
+    const filePath = path.join(courseDir, COURSE_NAV_FILE);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, `window.SKOOL_COURSE_NAV = ${payload};\n`);
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+// Runs in the browser. Lessons missing from the course tree (not downloaded yet) are skipped.
+const COURSE_NAV_SCRIPT = `
+(function () {
+    function run() {
+        var pager = document.getElementById('lesson-pager');
+        var sidebar = document.getElementById('course-sidebar');
+        var data = window.SKOOL_COURSE_NAV;
+        if (!pager || !data) return;
+        var base = pager.getAttribute('data-course') || '';
+        var current = pager.getAttribute('data-lesson');
+        var flat = [];
+        data.modules.forEach(function (module) {
+            module.lessons.forEach(function (lesson) { flat.push(lesson); });
+        });
+        var at = -1;
+        for (var i = 0; i < flat.length; i++) {
+            if (flat[i].href === current) { at = i; break; }
+        }
+
+        function link(lesson, className, label) {
+            var a = document.createElement('a');
+            a.className = className;
+            a.href = base + lesson.href;
+            var small = document.createElement('span');
+            small.textContent = label;
+            var strong = document.createElement('strong');
+            strong.textContent = lesson.title;
+            a.appendChild(small);
+            a.appendChild(strong);
+            return a;
+        }
+
+        if (at !== -1) {
+            if (at > 0) pager.appendChild(link(flat[at - 1], 'pager-prev', '← Previous'));
+            if (at < flat.length - 1) pager.appendChild(link(flat[at + 1], 'pager-next', 'Next →'));
+            pager.hidden = pager.children.length === 0;
+            document.addEventListener('keydown', function (event) {
+                if (event.altKey || event.ctrlKey || event.metaKey || /input|textarea|select/i.test(event.target.tagName)) return;
+                if (event.key === 'ArrowLeft' && at > 0) location.href = base + flat[at - 1].href;
+                if (event.key === 'ArrowRight' && at < flat.length - 1) location.href = base + flat[at + 1].href;
+            });
+        }
+
+        if (!sidebar) return;
+        var tree = document.createElement('details');
+        tree.className = 'course-tree';
+        tree.open = window.matchMedia('(min-width: 1400px)').matches;
+        var summary = document.createElement('summary');
+        summary.textContent = data.course;
+        tree.appendChild(summary);
+        data.modules.forEach(function (module) {
+            var section = document.createElement('details');
+            section.className = 'course-tree-module';
+            var title = document.createElement('summary');
+            title.textContent = module.title;
+            section.appendChild(title);
+            var list = document.createElement('ol');
+            module.lessons.forEach(function (lesson) {
+                var item = document.createElement('li');
+                var a = document.createElement('a');
+                a.href = base + lesson.href;
+                a.textContent = lesson.title;
+                if (lesson.href === current) {
+                    a.setAttribute('aria-current', 'page');
+                    section.open = true;
+                }
+                item.appendChild(a);
+                list.appendChild(item);
+            });
+            section.appendChild(list);
+            tree.appendChild(section);
+        });
+        sidebar.appendChild(tree);
+        sidebar.hidden = false;
+    }
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', run);
+    } else {
+        run();
+    }
+})();
+`.trim();
+
+/**
+ * Markup for a lesson page's previous/next links and course sidebar. Both start hidden and are
+ * filled in the browser from the course's `course-nav.js`; `courseHref` leads from the lesson
+ * folder to the course folder.
+ */
+export function renderCourseNav(courseHref: string, lessonPath: string): { pager: string; sidebar: string } {
+    return {
+        pager: `<nav class="lesson-pager" id="lesson-pager" data-course="${courseHref}" data-lesson="${encodePath(lessonPath)}" hidden></nav>
+            <script src="${courseHref}${COURSE_NAV_FILE}"></script>
+            <script>${COURSE_NAV_SCRIPT}</script>`,
+        sidebar: '<aside class="course-sidebar" id="course-sidebar" hidden></aside>'
+    };
+}
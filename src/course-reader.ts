@@ -0,0 +1,169 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { loadLocalLessons, type LocalLesson } from './index.js';
+
+type CourseManifest = {
+    courseName: string;
+    groupName: string;
+    courseUrl?: string;
+    courseImagePath?: string;
+    modules: Array<{
+        index: number;
+        title: string;
+        moduleDirName: string;
+        root?: boolean;
+    }>;
+    updatedAt: string;
+};
+
+export type LocalCourseLesson = {
+    lessonId: string;
+    title: string;
+    lessonIndex: number;
+    /** Absolute path of the lesson folder. */
+    lessonDir: string;
+    /** Lesson folder relative to the course folder, with forward slashes. */
+    relativeDir: string;
+    videos: Array<{ file: string; embedded: boolean; url?: string; durationSeconds?: number }>;
+    /** Lesson body from the saved lesson page, with image paths relative to the lesson folder. */
+    contentHtml: string;
+    resources: Array<{ title: string; file: string; isExternal: boolean }>;
+};
+
+export type LocalCourseModule = {
+    index: number;
+    title: string;
+    root: boolean;
+    lessons: LocalCourseLesson[];
+};
+
+export type LocalCourse = {
+    courseDir: string;
+    courseName: string;
+    groupName: string;
+    courseUrl?: string;
+    courseImagePath?: string;
+    modules: LocalCourseModule[];
+};
+
+/** Link to a lesson on Skool, from the course URL recorded in `.course.json`. */
+export function lessonSourceUrl(courseUrl: string | undefined, lessonId: string) {
+    if (!courseUrl) return undefined;
+    const url = new URL(courseUrl);
+    url.searchParams.set('md', lessonId);
+    return url.toString();
+}
+
+/**
+ * Returns the inner HTML of the first element that opens with `openTag`, matching nested
+ * elements of the same tag name.
+ */
+export function extractElementInner(html: string, openTag: string): string | null {
+    const start = html.indexOf(openTag);
+    if (start === -1) return null;
+    const tagName = /^<([a-zA-Z0-9]+)/.exec(openTag)?.[1];
+    if (!tagName) return null;
+
+    const contentStart = start + openTag.length;
+    const tagRegex = new RegExp(`<(/?)${tagName}\\b[^>]*>`, 'gi');
+    tagRegex.lastIndex = contentStart;
+    let depth = 1;
+    let match;
+
+    while ((match = tagRegex.exec(html)) !== null) {
+        depth += match[1] ? -1 : 1;
+        if (depth === 0) {
+            return html.slice(contentStart, match.index);
+        }
+    }
+    return null;
+}
+
+/** Reads the resources list of a saved lesson page. Local files keep their `resources/` prefix. */
+export function extractResources(pageHtml: string): LocalCourseLesson['resources'] {
+    const list = extractElementInner(pageHtml, '<div class="resources">');
+    if (!list) return [];
+
+    const resources: LocalCourseLesson['resources'] = [];
+    const linkRegex = /<a href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/g;
+    let match;
+    while ((match = linkRegex.exec(list)) !== null) {
+        const href = match[1];
+        const isExternal = /^https?:/i.test(href);
+        resources.push({
+            title: match[2].replace(/<[^>]+>/g, '').replace(/ \(External\)$/, '').trim(),
+            file: isExternal ? href : decodeURIComponent(href),
+            isExternal
+        });
+    }
+    return resources;
+}
+
+function toLocalLesson(courseDir: string, local: LocalLesson, pageHtml: string): LocalCourseLesson {
+    const { manifest } = local;
+    const legacy = manifest as LocalLesson['manifest'] & { hasVideo?: boolean };
+    const videos = Array.isArray(manifest.videos)
+        ? manifest.videos.map(video => ({ file: video.file, embedded: video.embedded, url: video.url, durationSeconds: video.durationSeconds }))
+        : legacy.hasVideo ? [{ file: 'video.mp4', embedded: false }] : [];
+
+    return {
+        lessonId: manifest.lessonId,
+        title: manifest.title,
+        lessonIndex: manifest.lessonIndex,
+        lessonDir: local.lessonDir,
+        relativeDir: path.relative(courseDir, local.lessonDir).split(path.sep).join('/'),
+        videos,
+        contentHtml: (extractElementInner(pageHtml, '<div class="content">') ?? '').trim(),
+        resources: extractResources(pageHtml)
+    };
+}
+
+/**
+ * Loads a downloaded course (its `.course.json`, lesson manifests and saved lesson pages) in
+ * module and lesson order. Archived lessons are left out.
+ */
+export async function readLocalCourse(courseDir: string): Promise<LocalCourse> {
+    const manifestPath = path.join(courseDir, '.course.json');
+    if (!await fs.pathExists(manifestPath)) {
+        throw new Error(`No .course.json found in ${courseDir}. Is this a downloaded course folder?`);
+    }
+    const manifest: CourseManifest = await fs.readJson(manifestPath);
+    const localLessons = await loadLocalLessons(courseDir);
+
+    const modules = new Map<number, LocalCourseModule>();
+    for (const module of manifest.modules || []) {
+        modules.set(module.index, {
+            index: module.index,
+            title: module.title,
+            root: !!module.root || module.moduleDirName === '',
+            lessons: []
+        });
+    }
+
+    for (const local of localLessons.values()) {
+        if (local.archived) continue;
+        const indexPath = path.join(local.lessonDir, 'index.html');
+        if (!await fs.pathExists(indexPath)) continue;
+
+        const { moduleIndex, moduleTitle, moduleDirName } = local.manifest;
+        if (!modules.has(moduleIndex)) {
+            modules.set(moduleIndex, { index: moduleIndex, title: moduleTitle, root: moduleDirName === '', lessons: [] });
+        }
+        const pageHtml = await fs.readFile(indexPath, 'utf8');
+        modules.get(moduleIndex)!.lessons.push(toLocalLesson(courseDir, local, pageHtml));
+    }
+
+    const orderedModules = Array.from(modules.values())
+        .filter(module => module.lessons.length > 0)
+        .sort((a, b) => a.index - b.index);
+    orderedModules.forEach(module => module.lessons.sort((a, b) => a.lessonIndex - b.lessonIndex));
+
+    return {
+        courseDir,
+        courseName: manifest.courseName,
+        groupName: manifest.groupName,
+        courseUrl: manifest.courseUrl,
+        courseImagePath: manifest.courseImagePath,
+        modules: orderedModules
+    };
+}
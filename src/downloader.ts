@@ -3,20 +3,232 @@ import path from 'path';
 import fs from 'fs-extra';
 import axios from 'axios';
 import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import { createConsoleLogger, type Logger } from './logger.js';
 import { COOKIES_TXT_PATH } from './auth.js';
+import { writeAtomicJson } from './library.js';
+import { briefError, HttpStatusError, withRetry } from './retry.js';
 
 const YTDlpWrap = (YTDlpWrapPkg as any).default || YTDlpWrapPkg;
 
 const BIN_DIR = path.join(process.cwd(), 'bin');
 const YTDLP_PATH = path.join(BIN_DIR, process.platform === 'win32' ? 'yt-dlp.exe' : 'yt-dlp');
+const YTDLP_RELEASE_URL = 'https://github.com/yt-dlp/yt-dlp/releases/latest/download';
+
+// Written in each folder `downloadAsset` saves to: file name -> size of each finished download
+const DOWNLOADS_LEDGER_FILE = '.downloads.json';
+
+export const DEFAULT_SUBTITLE_LANGUAGES = ['en.*'];
+
+export type SubtitleOptions = {
+    /** yt-dlp language patterns, e.g. `en.*` or `es`. */
+    languages?: string[];
+    /** Include auto-generated captions when no manual ones exist. Defaults to true. */
+    auto?: boolean;
+};
+
+export type SubtitleTrack = {
+    file: string;
+    language: string;
+    label: string;
+};
+
+export const VIDEO_CODECS = ['h264', 'vp9', 'av1'] as const;
+
+export type VideoCodec = typeof VIDEO_CODECS[number];
+
+export type VideoQualityOptions = {
+    /** Tallest video to save, e.g. 720. */
+    maxHeight?: number;
+    /** Codec to prefer when a source offers several: h264 plays everywhere, vp9 and av1 are smaller. */
+    codec?: VideoCodec;
+    /** Highest total bitrate in kbit/s. */
+    maxBitrateKbps?: number;
+    /** Largest file in megabytes, for sources that report or estimate sizes. */
+    maxFileSizeMb?: number;
+    /** Save only the audio track, as `.m4a`. */
+    audioOnly?: boolean;
+};
+
+/** What yt-dlp actually picked for a downloaded file. */
+export type VideoFormat = {
+    formatId?: string;
+    height?: number;
+    vcodec?: string;
+    acodec?: string;
+    bitrateKbps?: number;
+    audioOnly?: boolean;
+};
+
+/** Extensions `downloadVideo` saves to: `mp4` for video, `m4a` for audio-only. */
+export const VIDEO_FILE_EXTENSIONS = ['mp4', 'm4a'] as const;
+
+export type VideoDownloadOptions = {
+    subtitles?: SubtitleOptions | null;
+    quality?: VideoQualityOptions;
+};
+
+export type VideoDownloadResult = {
+    file: string;
+    subtitles: SubtitleTrack[];
+    /** Reported by yt-dlp for fresh downloads; unknown when the file was already there. */
+    durationSeconds?: number;
+    format?: VideoFormat;
+};
+
+export type VideoProbe = {
+    durationSeconds?: number;
+    /** Size of the formats yt-dlp would pick, from reported or bitrate-derived sizes. */
+    estimatedBytes?: number;
+};
+
+function languageLabel(code: string) {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code;
+    } catch {
+        return code;
+    }
+}
+
+function escapeRegExp(value: string) {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+async function readLedger(dir: string): Promise<Record<string, number>> {
+    return fs.readJson(path.join(dir, DOWNLOADS_LEDGER_FILE)).catch(() => ({}));
+}
+
+export function videoFileExtension(quality: VideoQualityOptions = {}) {
+    return quality.audioOnly ? 'm4a' : 'mp4';
+}
+
+/** One-line summary of quality settings for logs, e.g. `720p max, h264`. */
+export function describeVideoQuality(quality: VideoQualityOptions = {}) {
+    const parts: string[] = [];
+    if (quality.audioOnly) parts.push('audio only');
+    if (quality.maxHeight && !quality.audioOnly) parts.push(`${quality.maxHeight}p max`);
+    if (quality.codec && !quality.audioOnly) parts.push(quality.codec);
+    if (quality.maxBitrateKbps) parts.push(`${quality.maxBitrateKbps} kbit/s max`);
+    if (quality.maxFileSizeMb) parts.push(`${quality.maxFileSizeMb} MB max`);
+    return parts.length > 0 ? parts.join(', ') : 'best available';
+}
+
+const CODEC_SORT: Record<VideoCodec, string> = {
+    h264: 'vcodec:h264',
+    vp9: 'vcodec:vp9',
+    av1: 'vcodec:av01'
+};
+
+/**
+ * yt-dlp `-f`/`-S` arguments for the quality settings. Limits are format filters that let
+ * formats without the field through; when nothing fits, the smallest format is taken rather
+ * than failing the lesson.
+ */
+function formatSelectionArgs(quality: VideoQualityOptions = {}): string[] {
+    const filters = [
+        quality.maxHeight && !quality.audioOnly ? `[height<=?${quality.maxHeight}]` : '',
+        quality.maxBitrateKbps ? `[tbr<=?${quality.maxBitrateKbps}]` : '',
+        quality.maxFileSizeMb ? `[filesize<=?${quality.maxFileSizeMb}M][filesize_approx<=?${quality.maxFileSizeMb}M]` : ''
+    ].join('');
+
+    if (quality.audioOnly) {
+        return ['-f', `ba${filters}/b${filters}/wa/w`, '-x', '--audio-format', 'm4a'];
+    }
+
+    const args: string[] = [];
+    if (filters) {
+        args.push('-f', `bv*${filters}+ba/b${filters}/wv*+ba/w`);
+    }
+    if (quality.codec) {
+        args.push('-S', CODEC_SORT[quality.codec]);
+    }
+    return args;
+}
+
+function optionalNumber(value: unknown) {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function optionalString(value: unknown) {
+    return typeof value === 'string' && value && value !== 'none' && value !== 'NA' ? value : undefined;
+}
+
+/** Parses the `--print after_move:` line: duration plus the fields of the chosen format. */
+function parseDownloadInfo(output: string, audioOnly: boolean): { durationSeconds?: number; format?: VideoFormat } {
+    const line = String(output).trim().split('\n').pop() ?? '';
+    let info: any;
+    try {
+        info = JSON.parse(line);
+    } catch {
+        return {};
+    }
+    const bitrate = optionalNumber(info?.tbr);
+    return {
+        durationSeconds: optionalNumber(info?.duration),
+        format: {
+            formatId: optionalString(info?.format_id),
+            height: audioOnly ? undefined : optionalNumber(info?.height),
+            vcodec: audioOnly ? undefined : optionalString(info?.vcodec),
+            acodec: optionalString(info?.acodec),
+            bitrateKbps: bitrate === undefined ? undefined : Math.round(bitrate),
+            audioOnly: audioOnly || undefined
+        }
+    };
+}
+
+/**
+ * Name `localizeImages` gives a remote image inside a lesson's `assets/` folder.
+ */
+export function localImageFileName(url: string) {
+    return `img_${Buffer.from(url).toString('base64').substring(0, 10)}_${path.basename(new URL(url).pathname)}`;
+}
+
+function estimateFormatBytes(info: any): number | undefined {
+    const formats: any[] = Array.isArray(info?.requested_formats) && info.requested_formats.length > 0
+        ? info.requested_formats
+        : [info];
+    let total = 0;
+    let known = false;
+
+    for (const format of formats) {
+        // HLS streams rarely report a size, so fall back to bitrate (kbit/s) times duration
+        const bytes = format?.filesize
+            ?? format?.filesize_approx
+            ?? (format?.tbr && info?.duration ? (format.tbr * 1000 / 8) * info.duration : undefined);
+        if (typeof bytes === 'number' && Number.isFinite(bytes)) {
+            total += bytes;
+            known = true;
+        }
+    }
+
+    return known ? Math.round(total) : undefined;
+}
+
+export type DownloaderOptions = {
+    /** Extra attempts for downloads that fail with a transient error. */
+    retries?: number;
+};
+
 export class Downloader {
     private ytDlp: any = null;
     private initPromise: Promise<void> | null = null;
+    // Ledger updates per folder, chained so parallel downloads into one folder don't lose entries
+    private ledgerWrites = new Map<string, Promise<void>>();
     private logger: Logger;
+    private retries?: number;
 
-    constructor(logger: Logger = createConsoleLogger()) {
+    constructor(logger: Logger = createConsoleLogger(), options: DownloaderOptions = {}) {
         this.logger = logger;
+        this.retries = options.retries;
+    }
+
+    private retry<T>(label: string, fn: () => Promise<T>): Promise<T> {
+        return withRetry(fn, {
+            retries: this.retries,
+            onRetry: ({ error, attempt, attempts, delayMs }) => {
+                this.logger.warn(`    🔁 ${label} failed (${briefError(error)}), retrying in ${(delayMs / 1000).toFixed(1)}s [${attempt + 1}/${attempts}]`);
+            }
+        });
     }
 
     async init() {
@@ -29,7 +241,9 @@ export class Downloader {
 
             if (!fs.existsSync(YTDLP_PATH)) {
                 this.logger.info('Downloading yt-dlp binary locally...');
-                await YTDlpWrap.downloadFromGithub(YTDLP_PATH);
+                // yt-dlp-wrap's own downloader throws network errors outside its promise, which
+                // would crash the process instead of failing this call
+                await this.downloadAsset(`${YTDLP_RELEASE_URL}/${path.basename(YTDLP_PATH)}`, YTDLP_PATH);
                 if (process.platform !== 'win32') {
                     await fs.chmod(YTDLP_PATH, 0o755);
                 }
@@ -40,61 +254,218 @@ export class Downloader {
         return this.initPromise;
     }
 
-    async downloadVideo(url: string, outputDir: string, filename: string) {
+    async downloadVideo(
+        url: string,
+        outputDir: string,
+        filename: string,
+        options: VideoDownloadOptions = {}
+    ): Promise<VideoDownloadResult> {
         if (!this.ytDlp) await this.init();
 
         await fs.ensureDir(outputDir);
-        const outputPath = path.join(outputDir, `${filename}.mp4`);
+        const quality = options.quality ?? {};
+        const subtitles = options.subtitles ?? null;
+        let file = `${filename}.${videoFileExtension(quality)}`;
+        let captionsOnly = false;
 
-        // Skip if video already exists
-        if (fs.existsSync(outputPath)) {
-            const stats = fs.statSync(outputPath);
-            if (stats.size > 0) {
+        // Skip if the video already exists. A file saved with other quality settings is kept too,
+        // so changing them never re-downloads a course; delete a file to fetch it again.
+        const existingFile = VIDEO_FILE_EXTENSIONS
+            .map(extension => `${filename}.${extension}`)
+            .find(candidate => {
+                const candidatePath = path.join(outputDir, candidate);
+                return fs.existsSync(candidatePath) && fs.statSync(candidatePath).size > 0;
+            });
+        if (existingFile) {
+            file = existingFile;
+            const stats = fs.statSync(path.join(outputDir, existingFile));
+            const existingTracks = await this.collectSubtitleTracks(outputDir, filename);
+            if (!subtitles || existingTracks.length > 0) {
                 this.logger.info(`    ⏭️  Video already exists, skipping download (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
-                return;
+                return { file, subtitles: existingTracks };
             }
+            captionsOnly = true;
         }
 
         const displayUrl = url.length > 100 ? url.substring(0, 97) + '...' : url;
-        this.logger.info(`    ⬇️  Downloading video from ${displayUrl}`);
+        if (captionsOnly) {
+            this.logger.info(`    💬 Video already exists, fetching captions from ${displayUrl}`);
+        } else {
+            this.logger.info(`    ⬇️  Downloading video from ${displayUrl}`);
+        }
 
+        const audioOnly = !!quality.audioOnly && !captionsOnly;
         const args = [
             url,
-            '-o', outputPath,
-            '--no-check-certificates',
-            '--prefer-free-formats',
-            '--add-header', 'Referer:https://www.skool.com/',
-            '--add-header', 'User-Agent:Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-            '--merge-output-format', 'mp4',
+            // Audio extraction picks the extension itself
+            '-o', path.join(outputDir, audioOnly ? `${filename}.%(ext)s` : file),
+            ...this.requestArgs(),
+            ...(captionsOnly ? [] : formatSelectionArgs(quality)),
+            ...(audioOnly ? [] : ['--merge-output-format', 'mp4']),
             '-N', '16',
-            '--postprocessor-args', 'ffmpeg:-movflags +faststart'
+            '--postprocessor-args', 'ffmpeg:-movflags +faststart',
+            // Printed once the file is in place; the output is otherwise quiet
+            '--print', 'after_move:%(.{duration,format_id,height,vcodec,acodec,tbr})j'
         ];
 
-        if (fs.existsSync(COOKIES_TXT_PATH)) {
-            args.push('--cookies', COOKIES_TXT_PATH);
+        if (subtitles) {
+            const languages = subtitles.languages?.length ? subtitles.languages : DEFAULT_SUBTITLE_LANGUAGES;
+            args.push(
+                '--write-subs',
+                '--sub-langs', languages.join(','),
+                '--sub-format', 'vtt/best',
+                '--convert-subs', 'vtt'
+            );
+            if (subtitles.auto !== false) {
+                args.push('--write-auto-subs');
+            }
         }
 
+        if (captionsOnly) {
+            args.push('--skip-download');
+        }
+
+        let output = '';
         try {
-            await this.ytDlp!.execPromise(args);
-            this.logger.info(`Video downloaded successfully to ${outputDir}`);
+            output = await this.retry(captionsOnly ? 'Caption download' : 'Video download', () => this.ytDlp!.execPromise(args));
+            if (!captionsOnly) {
+                this.logger.info(`Video downloaded successfully to ${outputDir}`);
+            }
         } catch (error) {
+            if (captionsOnly) {
+                // The video itself is fine; a failed caption lookup should not fail the lesson
+                this.logger.warn(`    ⚠️ Failed to fetch captions: ${String(error)}`);
+                return { file, subtitles: [] };
+            }
             this.logger.error(`Error downloading video: ${String(error)}`);
             throw error;
         }
+
+        const tracks = await this.collectSubtitleTracks(outputDir, filename);
+        if (tracks.length > 0) {
+            this.logger.info(`    💬 Saved ${tracks.length} caption track(s): ${tracks.map(track => track.language).join(', ')}`);
+        }
+        if (captionsOnly) {
+            return { file, subtitles: tracks };
+        }
+        return { file, subtitles: tracks, ...parseDownloadInfo(output, audioOnly) };
+    }
+
+    /**
+     * Reads format metadata with `yt-dlp -J` without downloading anything. With `quality` the
+     * estimate is for the formats those settings would pick.
+     */
+    async probeVideo(url: string, quality: VideoQualityOptions = {}): Promise<VideoProbe> {
+        if (!this.ytDlp) await this.init();
+
+        const output: string = await this.retry('Video metadata lookup', () =>
+            this.ytDlp!.execPromise([url, '-J', '--no-warnings', ...this.requestArgs(), ...formatSelectionArgs(quality)])
+        );
+        const info = JSON.parse(output);
+        return {
+            durationSeconds: typeof info?.duration === 'number' ? info.duration : undefined,
+            estimatedBytes: estimateFormatBytes(info)
+        };
+    }
+
+    private requestArgs(): string[] {
+        const args = [
+            '--no-check-certificates',
+            '--prefer-free-formats',
+            '--add-header', 'Referer:https://www.skool.com/',
+            '--add-header', 'User-Agent:Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+        ];
+        if (fs.existsSync(COOKIES_TXT_PATH)) {
+            args.push('--cookies', COOKIES_TXT_PATH);
+        }
+        return args;
+    }
+
+    /**
+     * Finds the WebVTT files yt-dlp wrote next to a video and normalizes their names to
+     * `<filename>.<lang>.vtt` (yt-dlp uses `<filename>.mp4.<lang>.vtt` for some extractors).
+     */
+    private async collectSubtitleTracks(outputDir: string, filename: string): Promise<SubtitleTrack[]> {
+        if (!await fs.pathExists(outputDir)) return [];
+
+        const pattern = new RegExp(`^${escapeRegExp(filename)}(\\.mp4|\\.m4a)?\\.([^.]+)\\.vtt$`);
+        const entries = await fs.readdir(outputDir);
+        const tracks: SubtitleTrack[] = [];
+
+        for (const entry of entries.sort()) {
+            const match = pattern.exec(entry);
+            if (!match) continue;
+
+            const language = match[2];
+            let file = entry;
+            if (match[1]) {
+                file = `${filename}.${language}.vtt`;
+                await fs.move(path.join(outputDir, entry), path.join(outputDir, file), { overwrite: true });
+            }
+            if (tracks.some(track => track.file === file)) continue;
+            tracks.push({ file, language, label: languageLabel(language) });
+        }
+
+        return tracks;
+    }
+
+    /**
+     * Downloads a file (resource, image, cover) to `outputPath`. Data goes to `<outputPath>.part`
+     * first and is renamed into place only once its size matches what the server announced, so
+     * an existing file is always complete. An interrupted download leaves the `.part` file, and
+     * the next attempt resumes it with a Range request when the server supports that.
+     */
+    /** Whether `downloadAsset` finished saving this file, and it still has the size it was saved with. */
+    async hasAsset(outputPath: string) {
+        const stats = await fs.stat(outputPath).catch(() => null);
+        if (!stats?.isFile()) return false;
+        const ledger = await readLedger(path.dirname(outputPath));
+        return ledger[path.basename(outputPath)] === stats.size;
     }
 
     async downloadAsset(url: string, outputPath: string) {
         await fs.ensureDir(path.dirname(outputPath));
 
         // Skip if asset already exists
-        if (fs.existsSync(outputPath)) {
-            const stats = fs.statSync(outputPath);
-            if (stats.size > 0) {
-                return; // Silently skip, caller will handle messaging
+        if (await this.hasAsset(outputPath)) {
+            return; // Silently skip, caller will handle messaging
+        }
+
+        // A file with no record of finishing may be cut short (older versions wrote in place), so
+        // resume it like a partial download; the server says whether anything is missing
+        const partPath = `${outputPath}.part`;
+        const unverified = (await fs.stat(outputPath).catch(() => null))?.size ?? 0;
+        if (unverified > 0 && !await fs.pathExists(partPath)) {
+            await fs.move(outputPath, partPath);
+        }
+
+        try {
+            await this.retry(`Download of ${path.basename(outputPath)}`, () => this.fetchAsset(url, outputPath));
+        } catch (err) {
+            // Keep what we had in place rather than leave pages pointing at a missing file
+            if (unverified > 0 && !await fs.pathExists(outputPath) && await fs.pathExists(partPath)) {
+                await fs.move(partPath, outputPath);
             }
+            throw err;
         }
+        await this.recordAsset(outputPath);
+    }
+
+    private recordAsset(outputPath: string): Promise<void> {
+        const dir = path.dirname(outputPath);
+        const write = (this.ledgerWrites.get(dir) ?? Promise.resolve()).then(async () => {
+            const { size } = await fs.stat(outputPath);
+            const ledger = await readLedger(dir);
+            ledger[path.basename(outputPath)] = size;
+            await writeAtomicJson(path.join(dir, DOWNLOADS_LEDGER_FILE), ledger);
+        });
+        this.ledgerWrites.set(dir, write.catch(() => undefined));
+        return write;
+    }
 
-        const writer = fs.createWriteStream(outputPath);
+    private async fetchAsset(url: string, outputPath: string, restarted = false): Promise<void> {
+        const partPath = `${outputPath}.part`;
+        const partSize = (await fs.stat(partPath).catch(() => null))?.size ?? 0;
 
         const response = await axios({
             url,
@@ -102,17 +473,57 @@ export class Downloader {
             responseType: 'stream',
             headers: {
                 'Referer': 'https://www.skool.com/',
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
+                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+                // Sizes and ranges refer to the bytes on the wire, so ask for them uncompressed
+                'Accept-Encoding': 'identity',
+                ...(partSize > 0 ? { 'Range': `bytes=${partSize}-` } : {})
             },
-            timeout: 10000
+            // Idle time before giving up; a large file may stream for much longer
+            timeout: 10000,
+            validateStatus: status => (status >= 200 && status < 300) || status === 416
         });
 
-        (response.data as Readable).pipe(writer);
+        const contentRange = String(response.headers['content-range'] ?? '');
+        const rangeTotal = /\/(\d+)$/.exec(contentRange)?.[1];
 
-        return new Promise((resolve, reject) => {
-            writer.on('finish', resolve);
-            writer.on('error', reject);
-        });
+        if (response.status === 416) {
+            (response.data as Readable).destroy();
+            // Nothing left to fetch when the partial file already has every byte
+            if (partSize > 0 && rangeTotal && Number(rangeTotal) === partSize) {
+                await fs.move(partPath, outputPath, { overwrite: true });
+                return;
+            }
+            // The file changed on the server since the partial download; start over once
+            if (partSize > 0 && !restarted) {
+                await fs.remove(partPath);
+                return this.fetchAsset(url, outputPath, true);
+            }
+            throw new HttpStatusError(`HTTP 416 downloading ${url}`, 416);
+        }
+
+        // 206 continues the partial file; a plain 200 means the server sent the whole file again
+        const resuming = response.status === 206 && contentRange.startsWith(`bytes ${partSize}-`);
+        if (response.status === 206 && !resuming) {
+            (response.data as Readable).destroy();
+            // A range other than the one asked for can't be appended; start over once
+            if (!restarted) {
+                await fs.remove(partPath);
+                return this.fetchAsset(url, outputPath, true);
+            }
+            throw new Error(`Unexpected range "${contentRange}" downloading ${url}`);
+        }
+        const contentLength = Number(response.headers['content-length']);
+        const expectedSize = resuming
+            ? (rangeTotal ? Number(rangeTotal) : partSize + contentLength)
+            : contentLength;
+
+        await pipeline(response.data as Readable, fs.createWriteStream(partPath, { flags: resuming ? 'a' : 'w' }));
+
+        const writtenSize = (await fs.stat(partPath)).size;
+        if (Number.isFinite(expectedSize) && expectedSize > 0 && writtenSize !== expectedSize) {
+            throw new Error(`Incomplete download of ${url}: got ${writtenSize} of ${expectedSize} bytes`);
+        }
+        await fs.move(partPath, outputPath, { overwrite: true });
     }
 
     async localizeImages(html: string, outputDir: string): Promise<string> {
@@ -120,23 +531,26 @@ export class Downloader {
         const imgRegex = /<img[^>]+src="([^">]+)"/g;
         let match;
         let processedHtml = html;
-        const tasks: { url: string; outputPath: string }[] = [];
+        const tasks = new Map<string, { url: string; outputPath: string }>();
 
         while ((match = imgRegex.exec(html)) !== null) {
-            const url = match[1];
-            if (!url) continue;
+            const src = match[1];
+            if (!src) continue;
+            // Rendered attributes are HTML-escaped, so undo that before fetching
+            const url = src.replace(/&amp;/g, '&');
             if (!url.startsWith('http')) continue;
 
-            const filename = `img_${Buffer.from(url).toString('base64').substring(0, 10)}_${path.basename(new URL(url).pathname)}`;
+            const filename = localImageFileName(url);
             const outputPath = path.join(assetsDir, filename);
-            tasks.push({ url, outputPath });
-            
-            processedHtml = processedHtml.replace(url, `assets/${filename}`);
+            // Repeated images share one download, so two writers never touch the same file
+            tasks.set(outputPath, { url, outputPath });
+
+            processedHtml = processedHtml.replace(src, `assets/${filename}`);
         }
 
-        if (tasks.length > 0) {
-            this.logger.info(`      🖼️  Localizing ${tasks.length} images...`);
-            await Promise.all(tasks.map(task => 
+        if (tasks.size > 0) {
+            this.logger.info(`      🖼️  Localizing ${tasks.size} images...`);
+            await Promise.all(Array.from(tasks.values(), task => 
                 this.downloadAsset(task.url, task.outputPath).catch(err => 
                     this.logger.warn(`      ⚠️ Failed to localize image: ${task.url}`)
                 )
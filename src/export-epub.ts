@@ -0,0 +1,253 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { readLocalCourse, type LocalCourseLesson, type LocalCourseModule } from './course-reader.js';
+import { sanitizeName } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { escapeHtml } from './tiptap.js';
+import { toXhtml } from './xhtml.js';
+import { createZip, type ZipEntry } from './zip.js';
+
+export type EpubExportOptions = {
+    /** Output file. Defaults to `<course-dir>/<Course Name>.epub`. */
+    outputPath?: string;
+    language?: string;
+    logger?: Logger;
+};
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.png': 'image/png',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml'
+};
+
+const EPUB_CSS = `
+body { font-family: serif; line-height: 1.5; }
+h1 { font-size: 1.6em; margin: 0 0 1em; }
+h2.lesson-title { font-size: 1.3em; margin: 2em 0 0.6em; page-break-before: always; }
+h2.lesson-title.first { page-break-before: auto; }
+img { max-width: 100%; height: auto; }
+pre { white-space: pre-wrap; font-size: 0.85em; }
+code { font-family: monospace; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 3px solid #999; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #999; padding: 0.2em 0.4em; }
+.video-placeholder { border: 1px solid #999; padding: 0.6em 0.8em; margin: 1em 0; font-size: 0.9em; }
+.resources { font-size: 0.9em; margin-top: 1.5em; }
+.title-page { text-align: center; }
+.title-page img { max-height: 60vh; }
+`.trim();
+
+function xhtmlDocument(title: string, body: string, language: string) {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+function videoPlaceholder(label: string, href: string, display: string) {
+    return `<div class="video-placeholder"><p>🎬 ${escapeHtml(label)}: <a href="${escapeHtml(href)}">${escapeHtml(display)}</a></p></div>`;
+}
+
+function bookIdentifier(seed: string) {
+    const hex = crypto.createHash('sha1').update(seed).digest('hex');
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * Collects images referenced by exported pages, so each local file is embedded once.
+ */
+class ImageCollector {
+    readonly entries: Array<{ id: string; href: string; mediaType: string; data: Buffer; properties?: string }> = [];
+    private byPath = new Map<string, string>();
+
+    async add(absolutePath: string, properties?: string): Promise<string | null> {
+        const existing = this.byPath.get(absolutePath);
+        if (existing) return existing;
+
+        const mediaType = IMAGE_MEDIA_TYPES[path.extname(absolutePath).toLowerCase()];
+        if (!mediaType || !await fs.pathExists(absolutePath)) return null;
+
+        const id = `img-${this.entries.length + 1}`;
+        const href = `images/${id}${path.extname(absolutePath).toLowerCase()}`;
+        this.entries.push({ id, href, mediaType, data: await fs.readFile(absolutePath), properties });
+        this.byPath.set(absolutePath, href);
+        return href;
+    }
+}
+
+async function renderLesson(lesson: LocalCourseLesson, images: ImageCollector, first: boolean): Promise<string> {
+    let html = lesson.contentHtml;
+
+    // Embedded third-party players can't play inside a book, so link to them instead
+    html = html.replace(/<div class="embed">\s*<iframe\b[^>]*\ssrc="([^"]+)"[^>]*>\s*<\/iframe>\s*<\/div>|<iframe\b[^>]*\ssrc="([^"]+)"[^>]*>(?:\s*<\/iframe>)?/g, (_match, wrapped?: string, bare?: string) => {
+        const url = (wrapped || bare || '').replace(/&amp;/g, '&');
+        return videoPlaceholder('Embedded video', url, url);
+    });
+
+    // Localized embedded videos point at files next to the lesson page
+    html = html.replace(/<video\b[^>]*\ssrc="([^"]+)"[^>]*>[\s\S]*?<\/video>/g, (_match, src: string) => {
+        const file = decodeURI(src);
+        return videoPlaceholder('Video', pathToFileURL(path.join(lesson.lessonDir, file)).href, `${lesson.relativeDir}/${file}`);
+    });
+
+    const imageTags = Array.from(html.matchAll(/<img\b[^>]*\ssrc="([^"]+)"[^>]*>/g));
+    for (const [tag, src] of imageTags) {
+        const decoded = src.replace(/&amp;/g, '&');
+        if (/^https?:/i.test(decoded)) {
+            html = html.replace(tag, `<a href="${src}">[image]</a>`);
+            continue;
+        }
+        if (decoded.startsWith('data:')) continue;
+        const href = await images.add(path.join(lesson.lessonDir, decodeURI(decoded)));
+        const localTag = /\salt=/.test(tag) ? tag : tag.replace('<img', '<img alt=""');
+        html = html.replace(tag, href ? localTag.replace(src, href) : '');
+    }
+
+    const primaryVideos = lesson.videos
+        .filter(video => !video.embedded)
+        .map(video => videoPlaceholder(
+            'Video lesson',
+            pathToFileURL(path.join(lesson.lessonDir, video.file)).href,
+            `${lesson.relativeDir}/${video.file}`
+        ))
+        .join('');
+
+    const resources = lesson.resources.length > 0
+        ? `<div class="resources"><p><strong>Resources</strong></p><ul>${lesson.resources.map(resource => resource.isExternal
+            ? `<li><a href="${escapeHtml(resource.file)}">${escapeHtml(resource.title)}</a></li>`
+            : `<li>${escapeHtml(resource.title)} (${escapeHtml(`${lesson.relativeDir}/${resource.file}`)})</li>`
+        ).join('')}</ul></div>`
+        : '';
+
+    return `<section id="lesson-${escapeHtml(lesson.lessonId)}">
+<h2 class="lesson-title${first ? ' first' : ''}">${escapeHtml(lesson.title)}</h2>
+${primaryVideos}
+${toXhtml(html)}
+${resources}
+</section>`;
+}
+
+function chapterTitle(module: LocalCourseModule) {
+    return module.root ? 'Lessons' : module.title;
+}
+
+/**
+ * Builds an EPUB3 book from a downloaded course folder: one chapter per module, lessons as
+ * sections, local images embedded and videos replaced by links to the local files.
+ */
+export async function exportEpub(courseDir: string, options: EpubExportOptions = {}): Promise<string> {
+    const logger = options.logger ?? createConsoleLogger();
+    const language = options.language ?? 'en';
+    const course = await readLocalCourse(courseDir);
+    const lessonsCount = course.modules.reduce((sum, module) => sum + module.lessons.length, 0);
+
+    if (lessonsCount === 0) {
+        throw new Error(`No downloaded lessons found in ${courseDir}`);
+    }
+
+    logger.info(`📚 Building EPUB for ${course.courseName} (${course.modules.length} chapters, ${lessonsCount} lessons)...`);
+
+    const images = new ImageCollector();
+    const coverHref = course.courseImagePath
+        ? await images.add(path.join(courseDir, course.courseImagePath), 'cover-image')
+        : null;
+
+    const titlePage = xhtmlDocument(course.courseName, `<div class="title-page">
+${coverHref ? `<img src="${coverHref}" alt=""/>` : ''}
+<h1>${escapeHtml(course.courseName)}</h1>
+<p>${escapeHtml(course.groupName)}</p>
+</div>`, language);
+
+    const chapters: Array<{ file: string; title: string; module: LocalCourseModule; content: string }> = [];
+    for (const [index, module] of course.modules.entries()) {
+        const sections: string[] = [];
+        for (const [lessonIndex, lesson] of module.lessons.entries()) {
+            sections.push(await renderLesson(lesson, images, lessonIndex === 0));
+        }
+        const title = chapterTitle(module);
+        const file = `chapter-${index + 1}.xhtml`;
+        chapters.push({
+            file,
+            title,
+            module,
+            content: xhtmlDocument(title, `<h1>${escapeHtml(title)}</h1>\n${sections.join('\n')}`, language)
+        });
+    }
+
+    const nav = xhtmlDocument('Contents', `<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+<ol>
+${chapters.map(chapter => `<li><a href="${chapter.file}">${escapeHtml(chapter.title)}</a>
+<ol>
+${chapter.module.lessons.map(lesson => `<li><a href="${chapter.file}#lesson-${escapeHtml(lesson.lessonId)}">${escapeHtml(lesson.title)}</a></li>`).join('\n')}
+</ol>
+</li>`).join('\n')}
+</ol>
+</nav>`, language);
+
+    const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+    const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${language}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${bookIdentifier(course.courseUrl || `${course.groupName}/${course.courseName}`)}</dc:identifier>
+<dc:title>${escapeHtml(course.courseName)}</dc:title>
+<dc:creator>${escapeHtml(course.groupName)}</dc:creator>
+<dc:language>${language}</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="style" href="style.css" media-type="text/css"/>
+<item id="title-page" href="title.xhtml" media-type="application/xhtml+xml"/>
+${chapters.map((chapter, index) => `<item id="chapter-${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+${images.entries.map(image => `<item id="${image.id}" href="${image.href}" media-type="${image.mediaType}"${image.properties ? ` properties="${image.properties}"` : ''}/>`).join('\n')}
+</manifest>
+<spine>
+<itemref idref="title-page"/>
+<itemref idref="nav"/>
+${chapters.map((_chapter, index) => `<itemref idref="chapter-${index + 1}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+    const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+    const entries: ZipEntry[] = [
+        { name: 'mimetype', data: 'application/epub+zip', store: true },
+        { name: 'META-INF/container.xml', data: container },
+        { name: 'OEBPS/content.opf', data: opf },
+        { name: 'OEBPS/nav.xhtml', data: nav },
+        { name: 'OEBPS/style.css', data: EPUB_CSS },
+        { name: 'OEBPS/title.xhtml', data: titlePage },
+        ...chapters.map(chapter => ({ name: `OEBPS/${chapter.file}`, data: chapter.content })),
+        // Images are already compressed
+        ...images.entries.map(image => ({ name: `OEBPS/${image.href}`, data: image.data, store: true }))
+    ];
+
+    const outputPath = options.outputPath || path.join(courseDir, `${sanitizeName(course.courseName)}.epub`);
+    await fs.ensureDir(path.dirname(outputPath));
+    await fs.writeFile(outputPath, createZip(entries));
+
+    logger.info(`✅ EPUB written to ${outputPath}`);
+    return outputPath;
+}
@@ -0,0 +1,151 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { lessonSourceUrl, readLocalCourse, type LocalCourseLesson } from './course-reader.js';
+import { localImageFileName } from './downloader.js';
+import { sanitizeName } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { renderTipTapMarkdown } from './tiptap-markdown.js';
+import type { TipTapNode } from './tiptap.js';
+
+export type MarkdownExportOptions = {
+    logger?: Logger;
+};
+
+export type MarkdownExportResult = {
+    /** The course map of content note, linking every lesson. */
+    courseNote: string;
+    lessonNotes: string[];
+};
+
+function noteFileName(title: string) {
+    // Obsidian reserves these characters for links, headings and block references
+    return `${sanitizeName(title).replace(/[[\]#^]/g, '-').trim() || 'Untitled'}.md`;
+}
+
+function linkTarget(url: string) {
+    return /[\s()]/.test(url) ? `<${url}>` : url;
+}
+
+function escapeLinkText(text: string) {
+    return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+function frontMatter(fields: Record<string, string | number | boolean | undefined>) {
+    const lines = Object.entries(fields)
+        .filter(([, value]) => value !== undefined)
+        // JSON strings are valid double-quoted YAML scalars
+        .map(([key, value]) => `${key}: ${typeof value === 'string' ? JSON.stringify(value) : value}`);
+    return `---\n${lines.join('\n')}\n---\n`;
+}
+
+async function renderLessonBody(lesson: LocalCourseLesson, logger: Logger): Promise<string> {
+    const contentPath = path.join(lesson.lessonDir, 'content.json');
+    if (!await fs.pathExists(contentPath)) {
+        // Lessons saved before content.json existed (or without a rich text body) keep their
+        // HTML, which Obsidian renders as is
+        return lesson.contentHtml ? `${lesson.contentHtml}\n` : '';
+    }
+
+    const nodes: TipTapNode[] = await fs.readJson(contentPath);
+    const localImages = new Set(await fs.readdir(path.join(lesson.lessonDir, 'assets')).catch(() => [] as string[]));
+
+    return renderTipTapMarkdown(nodes, {
+        logger,
+        resolveImage: src => {
+            const file = localImageFileName(src);
+            return localImages.has(file) ? `assets/${file}` : src;
+        },
+        resolveVideo: src => lesson.videos.find(video => video.embedded && video.url === src)?.file ?? null
+    });
+}
+
+async function renderLessonNote(
+    lesson: LocalCourseLesson,
+    moduleTitle: string,
+    courseNotePath: string,
+    courseUrl: string | undefined,
+    logger: Logger
+): Promise<string> {
+    const primaryVideos = lesson.videos.filter(video => !video.embedded);
+    const header = frontMatter({
+        lessonId: lesson.lessonId,
+        title: lesson.title,
+        module: moduleTitle,
+        index: lesson.lessonIndex,
+        source: lessonSourceUrl(courseUrl, lesson.lessonId),
+        hasVideo: lesson.videos.length > 0
+    });
+
+    const sections: string[] = [`# ${lesson.title}`];
+    if (primaryVideos.length > 0) {
+        sections.push(primaryVideos.map(video => `![](${linkTarget(video.file)})`).join('\n\n'));
+    }
+
+    const body = (await renderLessonBody(lesson, logger)).trim();
+    if (body) sections.push(body);
+
+    if (lesson.resources.length > 0) {
+        sections.push(`## Resources\n\n${lesson.resources.map(resource =>
+            `- [${escapeLinkText(resource.title)}](${linkTarget(resource.file)})`
+        ).join('\n')}`);
+    }
+
+    const backLink = path.relative(lesson.lessonDir, courseNotePath).split(path.sep).join('/');
+    sections.push(`---\n\n↑ [${escapeLinkText(path.basename(courseNotePath, '.md'))}](${linkTarget(backLink)})`);
+
+    return `${header}\n${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Writes a downloaded course as Obsidian-ready Markdown: one note per lesson next to its
+ * `index.html` (YAML front matter, localized images, local videos embedded, resources as
+ * relative links) and a course note in the course folder linking every lesson in module order.
+ * Lesson bodies are converted from the saved TipTap JSON (`content.json`) when present.
+ */
+export async function exportMarkdown(courseDir: string, options: MarkdownExportOptions = {}): Promise<MarkdownExportResult> {
+    const logger = options.logger ?? createConsoleLogger();
+    const course = await readLocalCourse(courseDir);
+    const lessonsCount = course.modules.reduce((sum, module) => sum + module.lessons.length, 0);
+
+    if (lessonsCount === 0) {
+        throw new Error(`No downloaded lessons found in ${courseDir}`);
+    }
+
+    logger.info(`📝 Writing Markdown notes for ${course.courseName} (${lessonsCount} lessons)...`);
+
+    const courseNote = path.join(courseDir, noteFileName(course.courseName));
+    const lessonNotes: string[] = [];
+    const outline: string[] = [];
+
+    for (const module of course.modules) {
+        const moduleTitle = module.root ? 'Lessons' : module.title;
+        const links: string[] = [];
+
+        for (const lesson of module.lessons) {
+            const notePath = path.join(lesson.lessonDir, noteFileName(lesson.title));
+            await fs.writeFile(notePath, await renderLessonNote(lesson, moduleTitle, courseNote, course.courseUrl, logger));
+            lessonNotes.push(notePath);
+
+            const relativeNote = path.relative(courseDir, notePath).split(path.sep).join('/');
+            links.push(`${links.length + 1}. [${escapeLinkText(lesson.title)}](${linkTarget(relativeNote)})`);
+        }
+
+        outline.push(`## ${moduleTitle}\n\n${links.join('\n')}`);
+    }
+
+    const cover = course.courseImagePath ? `![](${linkTarget(course.courseImagePath)})\n\n` : '';
+    const moc = `${frontMatter({
+        course: course.courseName,
+        group: course.groupName,
+        source: course.courseUrl,
+        lessons: lessonsCount
+    })}
+# ${course.courseName}
+
+${cover}${outline.join('\n\n')}
+`;
+    await fs.writeFile(courseNote, moc);
+
+    logger.info(`✅ ${lessonNotes.length} lesson notes and course note written to ${courseNote}`);
+    return { courseNote, lessonNotes };
+}
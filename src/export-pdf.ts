@@ -0,0 +1,207 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { chromium, type Browser } from 'playwright';
+import { readLocalCourse, type LocalCourseLesson } from './course-reader.js';
+import { sanitizeName } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { escapeHtml } from './tiptap.js';
+
+export type PdfExportOptions = {
+    /** Course PDF path. Defaults to `<course-dir>/<Course Name>.pdf`. */
+    outputPath?: string;
+    /** Also print every lesson page to `lesson.pdf` inside its folder. Defaults to true. */
+    lessonPdfs?: boolean;
+    logger?: Logger;
+};
+
+export type PdfExportResult = {
+    coursePdf: string;
+    lessonPdfs: string[];
+};
+
+const COMBINED_FILE_NAME = '.course-print.html';
+
+const PDF_OPTIONS = {
+    format: 'A4',
+    printBackground: true,
+    margin: { top: '18mm', bottom: '18mm', left: '16mm', right: '16mm' }
+} as const;
+
+const PRINT_CSS = `
+body { font-family: "Segoe UI", Helvetica, Arial, sans-serif; color: #14161d; line-height: 1.55; font-size: 11pt; }
+h1 { font-size: 20pt; margin: 0 0 12pt; }
+h2 { font-size: 15pt; margin: 0 0 10pt; }
+.title-page { text-align: center; padding-top: 30vh; page-break-after: always; }
+.title-page img { max-width: 60%; max-height: 40vh; border-radius: 8px; }
+.toc { page-break-after: always; }
+.toc ol { padding-left: 18pt; }
+.toc a { color: #14161d; text-decoration: none; }
+.module { page-break-before: always; }
+.lesson { page-break-before: always; }
+.module > .lesson:first-of-type { page-break-before: avoid; }
+img { max-width: 100%; height: auto; }
+pre { white-space: pre-wrap; background: #f4f4f5; padding: 8pt; border-radius: 4pt; font-size: 9pt; }
+code { font-family: Menlo, Consolas, monospace; }
+blockquote { margin: 10pt 0; padding-left: 10pt; border-left: 3pt solid #3b82f6; color: #5b6271; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d4d4d8; padding: 4pt 6pt; }
+.video-placeholder, .embed { border: 1px solid #d4d4d8; border-radius: 6pt; padding: 8pt 10pt; margin: 10pt 0; font-size: 9.5pt; color: #5b6271; }
+.resources { font-size: 10pt; margin-top: 14pt; }
+`.trim();
+
+function videoPlaceholder(label: string, file: string) {
+    return `<div class="video-placeholder">🎬 ${escapeHtml(label)}: ${escapeHtml(file)}</div>`;
+}
+
+/**
+ * Rewrites a lesson body for the combined course page, which lives in the course folder:
+ * relative URLs gain the lesson folder prefix and players become printable placeholders.
+ */
+function renderCombinedLesson(lesson: LocalCourseLesson): string {
+    // `prefix` labels placeholders; image sources are URL-encoded, so they get an encoded one
+    const prefix = `${lesson.relativeDir}/`;
+    const urlPrefix = `${lesson.relativeDir.split('/').map(encodeURIComponent).join('/')}/`;
+    let html = lesson.contentHtml
+        .replace(/<div class="embed">\s*<iframe\b[^>]*\ssrc="([^"]+)"[^>]*>\s*<\/iframe>\s*<\/div>|<iframe\b[^>]*\ssrc="([^"]+)"[^>]*>(?:\s*<\/iframe>)?/g,
+            (_match, wrapped?: string, bare?: string) => videoPlaceholder('Embedded video', (wrapped || bare || '').replace(/&amp;/g, '&')))
+        .replace(/<video\b[^>]*\ssrc="([^"]+)"[^>]*>[\s\S]*?<\/video>/g,
+            (_match, src: string) => videoPlaceholder('Video', `${prefix}${decodeURI(src)}`));
+
+    html = html.replace(/(<img\b[^>]*\ssrc=")([^"]+)"/g, (match, start: string, src: string) => {
+        if (/^(https?:|data:|\/)/i.test(src)) return match;
+        return `${start}${urlPrefix}${src}"`;
+    });
+
+    const primaryVideos = lesson.videos
+        .filter(video => !video.embedded)
+        .map(video => videoPlaceholder('Video lesson', `${prefix}${video.file}`))
+        .join('');
+
+    const resources = lesson.resources.length > 0
+        ? `<div class="resources"><strong>Resources</strong><ul>${lesson.resources.map(resource =>
+            `<li>${escapeHtml(resource.title)} — ${escapeHtml(resource.isExternal ? resource.file : `${prefix}${resource.file}`)}</li>`
+        ).join('')}</ul></div>`
+        : '';
+
+    return `<section class="lesson" id="lesson-${escapeHtml(lesson.lessonId)}">
+        <h2>${escapeHtml(lesson.title)}</h2>
+        ${primaryVideos}
+        <div class="content">${html}</div>
+        ${resources}
+    </section>`;
+}
+
+async function printLessonPages(browser: Browser, lessons: LocalCourseLesson[], logger: Logger): Promise<string[]> {
+    const written: string[] = [];
+    const page = await browser.newPage();
+    try {
+        for (const lesson of lessons) {
+            const outputPath = path.join(lesson.lessonDir, 'lesson.pdf');
+            await page.goto(pathToFileURL(path.join(lesson.lessonDir, 'index.html')).href, { waitUntil: 'load' });
+            // Players print as empty boxes, so swap them for a note; open the discussion
+            await page.evaluate(() => {
+                document.querySelectorAll('video').forEach(video => {
+                    const note = document.createElement('p');
+                    note.textContent = `🎬 Video: ${video.getAttribute('src') || ''}`;
+                    note.style.cssText = 'border:1px solid #d4d4d8;border-radius:8px;padding:10px 12px;color:#5b6271;';
+                    video.replaceWith(note);
+                });
+                document.querySelectorAll('details').forEach(details => details.setAttribute('open', ''));
+            });
+            await page.pdf({ ...PDF_OPTIONS, path: outputPath });
+            written.push(outputPath);
+            logger.info(`    📄 ${lesson.relativeDir}/lesson.pdf`);
+        }
+    } finally {
+        await page.close();
+    }
+    return written;
+}
+
+/**
+ * Prints a downloaded course to PDF with Playwright: one PDF per lesson page plus a combined
+ * course PDF with a title page, a linked table of contents in `.course.json` module order,
+ * and bookmarks for every module and lesson.
+ */
+export async function exportPdf(courseDir: string, options: PdfExportOptions = {}): Promise<PdfExportResult> {
+    const logger = options.logger ?? createConsoleLogger();
+    const course = await readLocalCourse(courseDir);
+    const lessons = course.modules.flatMap(module => module.lessons);
+
+    if (lessons.length === 0) {
+        throw new Error(`No downloaded lessons found in ${courseDir}`);
+    }
+
+    const coursePdf = options.outputPath || path.join(courseDir, `${sanitizeName(course.courseName)}.pdf`);
+    const combinedPath = path.join(courseDir, COMBINED_FILE_NAME);
+    const browser = await chromium.launch({ headless: true });
+
+    try {
+        let lessonPdfs: string[] = [];
+        if (options.lessonPdfs !== false) {
+            logger.info(`🖨️  Printing ${lessons.length} lesson pages...`);
+            lessonPdfs = await printLessonPages(browser, lessons, logger);
+        }
+
+        const toc = course.modules.map(module => `
+            <li><a href="#module-${module.index}">${escapeHtml(module.root ? 'Lessons' : module.title)}</a>
+                <ol>${module.lessons.map(lesson => `<li><a href="#lesson-${escapeHtml(lesson.lessonId)}">${escapeHtml(lesson.title)}</a></li>`).join('')}</ol>
+            </li>`).join('');
+
+        // Module titles are <h1> and lesson titles <h2>, which Chromium turns into nested bookmarks
+        const body = course.modules.map(module => `
+            <div class="module" id="module-${module.index}">
+                <h1>${escapeHtml(module.root ? 'Lessons' : module.title)}</h1>
+                ${module.lessons.map(renderCombinedLesson).join('')}
+            </div>`).join('');
+
+        const combinedHtml = `<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <title>${escapeHtml(course.courseName)}</title>
+    <style>${PRINT_CSS}</style>
+</head>
+<body>
+    <div class="title-page">
+        ${course.courseImagePath ? `<img src="${encodeURI(course.courseImagePath)}" alt="">` : ''}
+        <div style="font-size: 26pt; font-weight: 700; margin-top: 18pt;">${escapeHtml(course.courseName)}</div>
+        <p>${escapeHtml(course.groupName)}</p>
+        <p style="color: #5b6271; font-size: 9pt;">Exported ${escapeHtml(new Date().toLocaleDateString())}</p>
+    </div>
+    <nav class="toc">
+        <div style="font-size: 18pt; font-weight: 700; margin-bottom: 10pt;">Contents</div>
+        <ol>${toc}</ol>
+    </nav>
+    ${body}
+</body>
+</html>`;
+
+        await fs.writeFile(combinedPath, combinedHtml);
+
+        logger.info(`📚 Printing course PDF (${course.modules.length} modules, ${lessons.length} lessons)...`);
+        const page = await browser.newPage();
+        try {
+            await page.goto(pathToFileURL(combinedPath).href, { waitUntil: 'load' });
+            await fs.ensureDir(path.dirname(coursePdf));
+            await page.pdf({
+                ...PDF_OPTIONS,
+                path: coursePdf,
+                outline: true,
+                tagged: true,
+                displayHeaderFooter: true,
+                headerTemplate: '<span></span>',
+                footerTemplate: `<div style="width: 100%; font-size: 8pt; color: #888; padding: 0 16mm; display: flex; justify-content: space-between;"><span>${escapeHtml(course.courseName)}</span><span><span class="pageNumber"></span> / <span class="totalPages"></span></span></div>`
+            });
+        } finally {
+            await page.close();
+        }
+
+        logger.info(`✅ Course PDF written to ${coursePdf}`);
+        return { coursePdf, lessonPdfs };
+    } finally {
+        await fs.remove(combinedPath);
+        await browser.close();
+    }
+}
@@ -0,0 +1,261 @@
+import { execFile } from 'child_process';
+import fs from 'fs-extra';
+import path from 'path';
+import { promisify } from 'util';
+import { lessonSourceUrl, readLocalCourse, type LocalCourseLesson } from './course-reader.js';
+import { Downloader } from './downloader.js';
+import { PODCAST_DIR_NAME } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { htmlToText } from './search-index.js';
+
+const execFileAsync = promisify(execFile);
+
+export const PODCAST_FEED_FILE = 'feed.xml';
+
+const AUDIO_BITRATE = '96k';
+
+function ffmpegPath() {
+    return process.env.FFMPEG_PATH || 'ffmpeg';
+}
+
+async function ensureFfmpeg() {
+    try {
+        await execFileAsync(ffmpegPath(), ['-version']);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            throw new Error('ffmpeg not found. Install it or set FFMPEG_PATH to its location.');
+        }
+        throw error;
+    }
+}
+
+export type PodcastExportOptions = {
+    /** Folder for the episodes and feed; defaults to `podcast/` inside the course folder. */
+    outputDir?: string;
+    /**
+     * URL the output folder is reachable at, e.g. `http://localhost:8080/Group/Course/podcast/`.
+     * Without it the feed links episodes by file name, which only some podcast apps accept.
+     */
+    baseUrl?: string;
+    logger?: Logger;
+};
+
+export type PodcastExportResult = {
+    feedPath: string;
+    episodes: number;
+    /** Videos whose audio could not be extracted or fetched. */
+    failed: number;
+};
+
+type Episode = {
+    guid: string;
+    file: string;
+    title: string;
+    description: string;
+    moduleTitle: string;
+    season: number;
+    number: number;
+    link?: string;
+    durationSeconds?: number;
+    bytes: number;
+};
+
+function escapeXml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatDuration(seconds: number) {
+    const total = Math.round(seconds);
+    const hours = Math.floor(total / 3600);
+    const minutes = Math.floor((total % 3600) / 60);
+    const rest = total % 60;
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(rest)}` : `${minutes}:${pad(rest)}`;
+}
+
+function episodeDescription(lesson: LocalCourseLesson) {
+    const text = htmlToText(lesson.contentHtml);
+    // Podcast apps cut long show notes anyway
+    return text.length > 4000 ? `${text.slice(0, 3997)}...` : text;
+}
+
+/**
+ * Re-encodes the audio of `inputPath` to AAC in an `.m4a` with the episode's tags. Writes to a
+ * temporary file first so an interrupted export never leaves a truncated episode behind.
+ */
+async function writeEpisodeAudio(inputPath: string, outputPath: string, tags: Record<string, string>) {
+    const tempPath = `${outputPath}.tmp`;
+    const args = [
+        '-hide_banner', '-loglevel', 'error', '-y',
+        '-i', inputPath,
+        '-map', '0:a:0', '-vn',
+        '-c:a', 'aac', '-b:a', AUDIO_BITRATE,
+        ...Object.entries(tags).flatMap(([key, value]) => ['-metadata', `${key}=${value}`]),
+        '-movflags', '+faststart',
+        '-f', 'mp4', tempPath
+    ];
+    try {
+        await execFileAsync(ffmpegPath(), args, { maxBuffer: 10 * 1024 * 1024 });
+    } catch (error) {
+        await fs.remove(tempPath);
+        throw error;
+    }
+    await fs.move(tempPath, outputPath, { overwrite: true });
+}
+
+/** An episode made after its source video is up to date; re-downloaded videos are extracted again. */
+async function isCurrent(outputPath: string, sourcePath: string | null) {
+    const output = await fs.stat(outputPath).catch(() => null);
+    if (!output || output.size === 0) return false;
+    if (!sourcePath) return true;
+    const source = await fs.stat(sourcePath).catch(() => null);
+    return !source || output.mtimeMs >= source.mtimeMs;
+}
+
+function renderFeed(
+    course: { courseName: string; groupName: string; courseUrl?: string },
+    episodes: Episode[],
+    hrefFor: (file: string) => string,
+    coverFile: string | null
+) {
+    // Episodes get one minute apart publication dates so apps that sort by date keep lesson order
+    const firstDate = Date.now() - episodes.length * 60_000;
+    const cover = coverFile ? hrefFor(coverFile) : null;
+
+    const items = episodes.map((episode, index) => `
+    <item>
+        <title>${escapeXml(episode.title)}</title>
+        <description>${escapeXml(episode.description || `${episode.moduleTitle}: ${episode.title}`)}</description>
+        <enclosure url="${escapeXml(hrefFor(episode.file))}" length="${episode.bytes}" type="audio/x-m4a"/>
+        <guid isPermaLink="false">${escapeXml(episode.guid)}</guid>
+        <pubDate>${new Date(firstDate + index * 60_000).toUTCString()}</pubDate>
+        ${episode.link ? `<link>${escapeXml(episode.link)}</link>` : ''}
+        <itunes:title>${escapeXml(episode.title)}</itunes:title>
+        <itunes:season>${episode.season}</itunes:season>
+        <itunes:episode>${episode.number}</itunes:episode>
+        ${episode.durationSeconds ? `<itunes:duration>${formatDuration(episode.durationSeconds)}</itunes:duration>` : ''}
+    </item>`).join('');
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+<channel>
+    <title>${escapeXml(course.courseName)}</title>
+    <description>${escapeXml(`${course.courseName} from ${course.groupName}, in lesson order.`)}</description>
+    ${course.courseUrl ? `<link>${escapeXml(course.courseUrl)}</link>` : ''}
+    <itunes:author>${escapeXml(course.groupName)}</itunes:author>
+    <itunes:type>serial</itunes:type>
+    <itunes:explicit>false</itunes:explicit>
+    ${cover ? `<itunes:image href="${escapeXml(cover)}"/>
+    <image><url>${escapeXml(cover)}</url><title>${escapeXml(course.courseName)}</title>${course.courseUrl ? `<link>${escapeXml(course.courseUrl)}</link>` : ''}</image>` : ''}${items}
+</channel>
+</rss>
+`;
+}
+
+/**
+ * Turns a downloaded course into a podcast: the audio of every lesson video as a tagged `.m4a`
+ * (course as album, community as artist, lesson order as track numbers) and a `feed.xml` with
+ * one episode per video, modules as seasons. Videos that were never downloaded are fetched as
+ * audio from their source. Episodes already exported are kept unless their video changed.
+ */
+export async function exportPodcast(courseDir: string, options: PodcastExportOptions = {}): Promise<PodcastExportResult> {
+    const logger = options.logger ?? createConsoleLogger();
+    const course = await readLocalCourse(courseDir);
+    const outputDir = options.outputDir ?? path.join(courseDir, PODCAST_DIR_NAME);
+    const baseUrl = options.baseUrl ? options.baseUrl.replace(/\/?$/, '/') : null;
+    const hrefFor = (file: string) => `${baseUrl ?? ''}${encodeURIComponent(file)}`;
+
+    const sources = course.modules.flatMap((module, moduleIndex) => module.lessons.flatMap(lesson =>
+        lesson.videos.map((video, videoIndex) => ({ module, season: moduleIndex + 1, lesson, video, videoIndex }))
+    ));
+    if (sources.length === 0) {
+        throw new Error(`No lesson videos found in ${courseDir}`);
+    }
+
+    await ensureFfmpeg();
+    await fs.ensureDir(outputDir);
+    logger.info(`🎧 Exporting ${sources.length} episodes of ${course.courseName}...`);
+
+    const downloader = new Downloader(logger);
+    const sourcesDir = path.join(outputDir, '.sources');
+    const episodes: Episode[] = [];
+    let failed = 0;
+
+    for (const [index, { module, season, lesson, video, videoIndex }] of sources.entries()) {
+        const guid = videoIndex === 0 ? lesson.lessonId : `${lesson.lessonId}-${videoIndex + 1}`;
+        const file = `${guid}.m4a`;
+        const outputPath = path.join(outputDir, file);
+        const title = lesson.videos.length > 1 ? `${lesson.title} (part ${videoIndex + 1})` : lesson.title;
+        const moduleTitle = module.root ? course.courseName : module.title;
+        const number = index + 1;
+
+        const localPath = path.join(lesson.lessonDir, video.file);
+        const hasLocal = await fs.pathExists(localPath);
+
+        try {
+            if (!await isCurrent(outputPath, hasLocal ? localPath : null)) {
+                let inputPath = localPath;
+                if (!hasLocal) {
+                    if (!video.url) throw new Error(`${video.file} is missing and has no source URL`);
+                    logger.info(`  ⬇️  Fetching audio for ${title} from the source`);
+                    const result = await downloader.downloadVideo(video.url, sourcesDir, guid, { quality: { audioOnly: true } });
+                    inputPath = path.join(sourcesDir, result.file);
+                }
+
+                logger.info(`  🎵 ${title}`);
+                await writeEpisodeAudio(inputPath, outputPath, {
+                    title,
+                    album: course.courseName,
+                    artist: course.groupName,
+                    album_artist: course.groupName,
+                    track: `${number}/${sources.length}`,
+                    disc: String(season),
+                    genre: 'Podcast',
+                    comment: moduleTitle
+                });
+                if (!hasLocal) await fs.remove(inputPath);
+            }
+
+            episodes.push({
+                guid,
+                file,
+                title,
+                description: episodeDescription(lesson),
+                moduleTitle,
+                season,
+                number,
+                link: lessonSourceUrl(course.courseUrl, lesson.lessonId),
+                durationSeconds: video.durationSeconds,
+                bytes: (await fs.stat(outputPath)).size
+            });
+        } catch (err) {
+            failed += 1;
+            logger.warn(`  ⚠️ Failed to export audio for ${title}: ${String(err)}`);
+        }
+    }
+    await fs.remove(sourcesDir);
+
+    let coverFile: string | null = null;
+    if (course.courseImagePath && await fs.pathExists(path.join(courseDir, course.courseImagePath))) {
+        coverFile = `cover${path.extname(course.courseImagePath)}`;
+        await fs.copy(path.join(courseDir, course.courseImagePath), path.join(outputDir, coverFile));
+    }
+
+    const feedPath = path.join(outputDir, PODCAST_FEED_FILE);
+    const tempPath = `${feedPath}.tmp`;
+    await fs.writeFile(tempPath, renderFeed(course, episodes, hrefFor, coverFile));
+    await fs.move(tempPath, feedPath, { overwrite: true });
+
+    logger.info(`✅ ${episodes.length} episodes and ${PODCAST_FEED_FILE} written to ${outputDir}`);
+    if (failed > 0) {
+        logger.warn(`⚠️ ${failed} episodes failed; run the export again to retry them.`);
+    }
+    if (!baseUrl) {
+        logger.info('   Episodes are linked by file name. Pass --base-url with the address the folder is served at (e.g. by `skool serve`) for apps that need full URLs.');
+    }
+    return { feedPath, episodes: episodes.length, failed };
+}
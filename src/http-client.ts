@@ -0,0 +1,145 @@
+import axios from 'axios';
+import fs from 'fs-extra';
+import { STORAGE_STATE_PATH } from './auth.js';
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+/** Origin of Skool's pages. */
+export const SKOOL_BASE_URL = 'https://www.skool.com';
+
+/** Origin of Skool's API (comments, file download URLs). */
+export const SKOOL_API_URL = 'https://api2.skool.com';
+
+export type StoredCookie = {
+    name: string;
+    value: string;
+    domain: string;
+    path?: string;
+    expires?: number;
+    secure?: boolean;
+};
+
+export type SkoolHttpClientOptions = {
+    storageStatePath?: string;
+    /** Origin sent as the Referer; point it at a stub server to test without Skool. */
+    baseUrl?: string;
+};
+
+export type ApiResponse = {
+    success: boolean;
+    status?: number;
+    text?: string;
+    error?: string;
+};
+
+/**
+ * Reads the cookies Playwright saved in the storage state file during `skool login`.
+ */
+export async function loadStorageCookies(storageStatePath: string = STORAGE_STATE_PATH): Promise<StoredCookie[]> {
+    if (!await fs.pathExists(storageStatePath)) return [];
+    try {
+        const state = await fs.readJson(storageStatePath);
+        return Array.isArray(state?.cookies) ? state.cookies : [];
+    } catch {
+        return [];
+    }
+}
+
+function domainMatches(hostname: string, cookieDomain: string) {
+    const domain = cookieDomain.replace(/^\./, '').toLowerCase();
+    const host = hostname.toLowerCase();
+    return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * Builds a Cookie header for `url` following the usual domain, path, secure and expiry rules.
+ */
+export function buildCookieHeader(cookies: StoredCookie[], url: string): string {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now() / 1000;
+
+    return cookies
+        .filter(cookie => {
+            if (!cookie?.name || !cookie.domain) return false;
+            if (!domainMatches(hostname, cookie.domain)) return false;
+            if (cookie.path && !pathname.startsWith(cookie.path)) return false;
+            if (cookie.secure && protocol !== 'https:') return false;
+            if (cookie.expires && cookie.expires > 0 && cookie.expires < now) return false;
+            return true;
+        })
+        .map(cookie => `${cookie.name}=${cookie.value}`)
+        .join('; ');
+}
+
+/**
+ * Pulls the Next.js `__NEXT_DATA__` payload out of a server-rendered page.
+ */
+export function extractNextData(html: string): any | null {
+    const match = /<script[^>]*id="__NEXT_DATA__"[^>]*>([\s\S]*?)<\/script>/.exec(html);
+    if (!match) return null;
+    try {
+        return JSON.parse(match[1]);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Browserless access to Skool pages and API endpoints using the saved login cookies.
+ */
+export class SkoolHttpClient {
+    private cookies: StoredCookie[] | null = null;
+    private storageStatePath: string;
+    private baseUrl: string;
+
+    constructor(options: SkoolHttpClientOptions = {}) {
+        this.storageStatePath = options.storageStatePath ?? STORAGE_STATE_PATH;
+        this.baseUrl = (options.baseUrl ?? SKOOL_BASE_URL).replace(/\/$/, '');
+    }
+
+    private async headersFor(url: string, extra: Record<string, string> = {}) {
+        if (!this.cookies) {
+            this.cookies = await loadStorageCookies(this.storageStatePath);
+        }
+        const headers: Record<string, string> = {
+            'User-Agent': USER_AGENT,
+            'Referer': `${this.baseUrl}/`,
+            ...extra
+        };
+        const cookieHeader = buildCookieHeader(this.cookies, url);
+        if (cookieHeader) headers['Cookie'] = cookieHeader;
+        return headers;
+    }
+
+    async fetchHtml(url: string): Promise<string> {
+        const response = await axios.get<string>(url, {
+            headers: await this.headersFor(url, { 'Accept': 'text/html,application/xhtml+xml' }),
+            responseType: 'text',
+            timeout: 60000
+        });
+        return response.data;
+    }
+
+    async fetchNextData(url: string): Promise<any | null> {
+        return extractNextData(await this.fetchHtml(url));
+    }
+
+    async request(url: string, method: 'GET' | 'POST' = 'GET'): Promise<ApiResponse> {
+        try {
+            const response = await axios.request<string>({
+                url,
+                method,
+                headers: await this.headersFor(url),
+                responseType: 'text',
+                validateStatus: () => true,
+                timeout: 30000
+            });
+            if (response.status < 200 || response.status >= 300) {
+                return { success: false, status: response.status, error: `HTTP ${response.status}` };
+            }
+            return { success: true, status: response.status, text: response.data };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+}
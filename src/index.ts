@@ -1,13 +1,21 @@
-import { Scraper, Module } from './scraper.js';
-import { Downloader } from './downloader.js';
+import { Scraper, Module, type ClassroomResult, type FetchMode, type LessonComment } from './scraper.js';
+import { briefError, classifyError, type ErrorClass } from './retry.js';
+import { describeVideoQuality, Downloader, type SubtitleOptions, type SubtitleTrack, type VideoFormat, type VideoQualityOptions } from './downloader.js';
 import { regenerateIndex } from './regenerate-index.js';
 import { regenerateGroupIndex } from './regenerate-group-index.js';
+import { regenerateLibraryIndex } from './regenerate-library-index.js';
+import { ARCHIVE_DIR_NAME, GROUP_ASSETS_DIR_NAME, GROUP_MANIFEST_FILE, isCourseContentDir, isLibraryDir, readGroupManifest, sanitizeName, writeAtomicJson, type GroupManifest } from './library.js';
 import { createConsoleLogger, type Logger } from './logger.js';
+import { countComments, renderComments, renderLessonPage, type LessonPageResource } from './lesson-page.js';
+import { loadTheme, resolveThemeDir } from './theme.js';
+import { COURSE_RAW_FILE, LESSON_RAW_FILE, RAW_SCHEMA_VERSION, type RawCourseFile, type RawLessonFile } from './raw-data.js';
+import { detectVideoSource, renderVideoTag, replaceEmbeddedVideo, type VideoSource } from './videos.js';
 import fs from 'fs-extra';
 import path from 'path';
 import pLimit from 'p-limit';
 
 const DEFAULT_CONCURRENCY = 8;
+const RELOCATE_DIR_NAME = '.relocating';
 const MAX_CONCURRENCY = 16;
 
 const indexLimit = pLimit(1);
@@ -30,6 +38,9 @@ function registerShutdownHandlers(logger: Logger) {
             await regenerateIndex(activeOutputDir);
             if (activeGroupDir) {
                 await regenerateGroupIndex(activeGroupDir);
+                if (isLibraryDir(path.dirname(activeGroupDir))) {
+                    await regenerateLibraryIndex(path.dirname(activeGroupDir));
+                }
             }
         } catch (err) {
             logger.error('⚠️ Failed to regenerate index during shutdown.', err);
@@ -45,6 +56,8 @@ function registerShutdownHandlers(logger: Logger) {
 type CourseManifest = {
     courseName: string;
     groupName: string;
+    courseUrl?: string;
+    remoteUpdatedAt?: string;
     courseImageUrl?: string;
     courseImagePath?: string;
     modules: Array<{
@@ -53,9 +66,28 @@ type CourseManifest = {
         moduleDirName: string;
         root?: boolean;
     }>;
+    /** Theme folder chosen with `--theme`; absent for the default theme. */
+    themeDir?: string;
+    /** The logged-in member's progress on Skool when the course was last downloaded. */
+    skoolProgress?: {
+        completedLessons: number;
+        totalLessons: number;
+        percent?: number;
+    };
     updatedAt: string;
 };
 
+type LessonVideoEntry = {
+    file: string;
+    source: VideoSource;
+    url?: string;
+    embedded: boolean;
+    subtitles?: SubtitleTrack[];
+    durationSeconds?: number;
+    /** Format yt-dlp picked when the file was downloaded. */
+    format?: VideoFormat;
+};
+
 type LessonManifest = {
     lessonId: string;
     title: string;
@@ -65,8 +97,14 @@ type LessonManifest = {
     moduleDirName: string;
     lessonDirName: string;
     relativePath: string;
-    hasVideo: boolean;
+    videos: LessonVideoEntry[];
     resourcesCount: number;
+    commentsCount?: number;
+    remoteUpdatedAt?: string;
+    /** Whether the lesson was completed on Skool when it was last downloaded or synced. */
+    completed?: boolean;
+    /** Downloads that failed last time; `sync` fetches the lesson again until none are left. */
+    failedStages?: Array<'video' | 'resource'>;
     updatedAt: string;
 };
 
@@ -101,6 +139,7 @@ export type DownloadCallbacks = {
         lessonIndex: number;
         lessonTitle: string;
         hasVideo: boolean;
+        videosCount: number;
         resourcesCount: number;
     }) => void;
     onLessonError?: (info: {
@@ -108,6 +147,7 @@ export type DownloadCallbacks = {
         lessonIndex: number;
         lessonTitle: string;
         error: unknown;
+        errorClass: ErrorClass;
     }) => void;
     onCourseComplete?: (summary: DownloadSummary) => void;
 };
@@ -118,6 +158,19 @@ export type DownloadOptions = {
     concurrency?: number;
     mode?: DownloadMode;
     lessonId?: string | null;
+    comments?: boolean;
+    subtitles?: SubtitleOptions | null;
+    /** Resolution, codec, size and audio-only settings for new video downloads. */
+    videoQuality?: VideoQualityOptions;
+    /** Extra attempts for pages and downloads that fail with a transient error. */
+    retries?: number;
+    fetchMode?: FetchMode;
+    /** Skip lessons whose remote `updatedAt` matches the local lesson.json and report a changelog. */
+    incremental?: boolean;
+    /** Also keep the full scraped data as `lesson.raw.json` and `.course.raw.json`. */
+    saveRaw?: boolean;
+    /** Theme folder for generated pages (`default` for the bundled theme). Remembered per course. */
+    themeDir?: string;
     logger?: Logger;
     callbacks?: DownloadCallbacks;
     suppressIndexLogs?: boolean;
@@ -132,7 +185,41 @@ export type DownloadSummary = {
     lessonsCount: number;
     completedLessons: number;
     failedLessons: number;
+    skippedLessons: number;
     targetLessonId: string | null;
+    changelog?: CourseChangelog;
+    failures: LessonFailure[];
+};
+
+/**
+ * Something that still failed after its retries. A failed `lesson` is counted in
+ * `failedLessons`; a failed `video` or `resource` is left out of an otherwise saved lesson.
+ */
+export type LessonFailure = {
+    lessonId: string;
+    title: string;
+    moduleTitle: string;
+    stage: 'lesson' | 'video' | 'resource';
+    errorClass: ErrorClass;
+    error: string;
+};
+
+/** Written to the course folder with the failures of the last full run; removed when there are none. */
+export const FAILURES_FILE = '.failures.json';
+
+export type ChangelogEntry = {
+    lessonId: string;
+    title: string;
+    moduleTitle: string;
+};
+
+export type CourseChangelog = {
+    added: ChangelogEntry[];
+    changed: ChangelogEntry[];
+    /** Renamed or reordered upstream; the existing folder was moved instead of re-downloaded. */
+    moved: ChangelogEntry[];
+    removed: ChangelogEntry[];
+    unchanged: number;
 };
 
 export type LessonTask = {
@@ -140,10 +227,53 @@ export type LessonTask = {
     run: (onStatus?: (message: string) => void) => Promise<void>;
 };
 
-async function writeAtomicJson(filePath: string, data: unknown) {
-    const tempPath = `${filePath}.tmp`;
-    await fs.writeJson(tempPath, data, { spaces: 2 });
-    await fs.move(tempPath, filePath, { overwrite: true });
+/** Completion counts over the whole classroom tree, or undefined when Skool sent no flags. */
+function readSkoolProgress(classroom: ClassroomResult): CourseManifest['skoolProgress'] {
+    const lessons = classroom.modules.flatMap(module => module.lessons);
+    if (!lessons.some(lesson => lesson.completed !== undefined) && classroom.progress === undefined) {
+        return undefined;
+    }
+    return {
+        completedLessons: lessons.filter(lesson => lesson.completed).length,
+        totalLessons: lessons.length,
+        percent: classroom.progress
+    };
+}
+
+/**
+ * Saves the group's logo and cover into `<group>/.group/` and records them in `.group.json`
+ * for the library page. Failures only cost the images.
+ */
+async function saveGroupManifest(
+    groupDir: string,
+    classroom: ClassroomResult,
+    downloader: Downloader,
+    logger: Logger
+) {
+    const previous = await readGroupManifest(groupDir);
+    const manifest: GroupManifest = {
+        groupName: classroom.groupName,
+        logoPath: previous?.logoPath,
+        coverPath: previous?.coverPath,
+        updatedAt: new Date().toISOString()
+    };
+
+    const images: Array<[url: string | undefined, name: string, key: 'logoPath' | 'coverPath']> = [
+        [classroom.groupLogoUrl, 'logo', 'logoPath'],
+        [classroom.groupCoverUrl, 'cover', 'coverPath']
+    ];
+    for (const [url, name, key] of images) {
+        if (!url) continue;
+        const relativePath = `${GROUP_ASSETS_DIR_NAME}/${name}${getUrlExtension(url)}`;
+        try {
+            await downloader.downloadAsset(url, path.join(groupDir, relativePath));
+            manifest[key] = relativePath;
+        } catch (err) {
+            logger.warn(`⚠️ Failed to download the group ${name}, continuing without it.`);
+        }
+    }
+
+    await writeAtomicJson(path.join(groupDir, GROUP_MANIFEST_FILE), manifest);
 }
 
 function getUrlExtension(url: string) {
@@ -156,11 +286,135 @@ function getUrlExtension(url: string) {
     return '.jpg';
 }
 
-function sanitizeName(value: string) {
-    return value.replace(/[/\\?%*:|"<>]/g, '-');
+export type LocalLesson = {
+    manifest: LessonManifest;
+    lessonDir: string;
+    archived: boolean;
+};
+
+/**
+ * Reads every lesson.json below a course folder (root lessons, module/lesson folders and
+ * `_archived/` lessons), keyed by lesson id.
+ */
+export async function loadLocalLessons(courseDir: string): Promise<Map<string, LocalLesson>> {
+    const lessons = new Map<string, LocalLesson>();
+    if (!await fs.pathExists(courseDir)) return lessons;
+
+    const readLesson = async (lessonDir: string, archived = false) => {
+        const manifestPath = path.join(lessonDir, 'lesson.json');
+        if (!await fs.pathExists(manifestPath)) return false;
+        try {
+            const manifest: LessonManifest = await fs.readJson(manifestPath);
+            const existing = manifest?.lessonId ? lessons.get(manifest.lessonId) : undefined;
+            // A live copy always wins over an archived one
+            if (manifest?.lessonId && (!existing || existing.archived)) {
+                lessons.set(manifest.lessonId, { manifest, lessonDir, archived });
+            }
+        } catch (err) {
+            // Unreadable manifests are treated as missing, so the lesson is fetched again.
+        }
+        return true;
+    };
+
+    const entries = await fs.readdir(courseDir, { withFileTypes: true });
+    for (const entry of entries) {
+        if (!entry.isDirectory() || !(isCourseContentDir(entry.name) || entry.name === ARCHIVE_DIR_NAME)) continue;
+        const entryPath = path.join(courseDir, entry.name);
+        if (await readLesson(entryPath)) continue;
+
+        const lessonEntries = await fs.readdir(entryPath, { withFileTypes: true });
+        for (const lessonEntry of lessonEntries) {
+            if (lessonEntry.isDirectory()) {
+                await readLesson(path.join(entryPath, lessonEntry.name), entry.name === ARCHIVE_DIR_NAME);
+            }
+        }
+    }
+
+    return lessons;
+}
+
+async function uniqueArchivePath(courseDir: string, lessonDirName: string, lessonId: string) {
+    const archiveDir = path.join(courseDir, ARCHIVE_DIR_NAME);
+    const preferred = path.join(archiveDir, lessonDirName);
+    if (!await fs.pathExists(preferred)) return preferred;
+    return path.join(archiveDir, `${lessonDirName}-${lessonId}`);
+}
+
+async function removeEmptyDirs(courseDir: string, dirs: Iterable<string>) {
+    for (const dir of dirs) {
+        if (path.resolve(dir) === path.resolve(courseDir)) continue;
+        try {
+            const remaining = await fs.readdir(dir);
+            if (remaining.length === 0) await fs.remove(dir);
+        } catch (err) {
+            // Already gone.
+        }
+    }
 }
 
-function resolveTargetLessonId(
+/**
+ * Moves existing lesson folders to the location the current course structure expects, so a
+ * renamed or reordered lesson keeps its video instead of being downloaded again, and moves
+ * lessons that no longer exist upstream into `_archived/`. Moves go through a staging folder
+ * so lessons that swap places don't collide.
+ */
+export async function reconcileLessonFolders(
+    courseDir: string,
+    expectedDirs: Map<string, string>,
+    localLessons: Map<string, LocalLesson>,
+    archiveRemoved: boolean,
+    logger: Logger
+): Promise<{ moved: LocalLesson[]; archived: LocalLesson[] }> {
+    const moved: LocalLesson[] = [];
+    const archived: LocalLesson[] = [];
+    const vacatedDirs = new Set<string>();
+    const stagingRoot = path.join(courseDir, RELOCATE_DIR_NAME);
+    const staged: Array<{ local: LocalLesson; stagingDir: string; targetDir: string }> = [];
+
+    for (const [lessonId, targetDir] of expectedDirs) {
+        const local = localLessons.get(lessonId);
+        if (!local || path.resolve(local.lessonDir) === path.resolve(targetDir)) continue;
+        const stagingDir = path.join(stagingRoot, lessonId);
+        await fs.move(local.lessonDir, stagingDir, { overwrite: true });
+        vacatedDirs.add(path.dirname(local.lessonDir));
+        staged.push({ local, stagingDir, targetDir });
+    }
+
+    if (archiveRemoved) {
+        for (const [lessonId, local] of localLessons) {
+            if (local.archived || expectedDirs.has(lessonId)) continue;
+            const archivePath = await uniqueArchivePath(courseDir, path.basename(local.lessonDir), lessonId);
+            await fs.move(local.lessonDir, archivePath);
+            vacatedDirs.add(path.dirname(local.lessonDir));
+            logger.info(`📦 Archived removed lesson: ${local.manifest.title}`);
+            local.lessonDir = archivePath;
+            local.archived = true;
+            archived.push(local);
+        }
+    }
+
+    for (const { local, stagingDir, targetDir } of staged) {
+        // Whatever still occupies the target is not a tracked lesson, so keep it out of the way
+        if (await fs.pathExists(targetDir)) {
+            const archivePath = await uniqueArchivePath(courseDir, path.basename(targetDir), 'untracked');
+            await fs.move(targetDir, archivePath);
+            logger.warn(`⚠️ Moved untracked folder ${targetDir} to ${archivePath}`);
+        }
+        await fs.ensureDir(path.dirname(targetDir));
+        await fs.move(stagingDir, targetDir);
+        logger.info(`🚚 ${local.archived ? 'Restored' : 'Moved'} lesson folder: ${path.relative(courseDir, local.lessonDir)} → ${path.relative(courseDir, targetDir)}`);
+        local.lessonDir = targetDir;
+        local.archived = false;
+        moved.push(local);
+    }
+
+    await fs.remove(stagingRoot);
+    await removeEmptyDirs(courseDir, vacatedDirs);
+
+    return { moved, archived };
+}
+
+export function resolveTargetLessonId(
     url: string,
     mode: DownloadMode,
     explicitLessonId?: string | null
@@ -230,15 +484,20 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
     const targetLessonId = resolveTargetLessonId(classroomUrl, mode, options.lessonId);
     classroomUrl = classroomUrl.split('?')[0];
 
-    const scraper = new Scraper(logger);
-    const downloader = new Downloader(logger);
+    const scraper = new Scraper(logger, { fetchMode: options.fetchMode, retries: options.retries });
+    const downloader = new Downloader(logger, { retries: options.retries });
 
     let completedLessons = 0;
     let failedLessons = 0;
+    const failures: LessonFailure[] = [];
 
     try {
         logger.info('🚀 Fetching course structure...');
-        let { modules, courseName, groupName, courseImageUrl } = await scraper.parseClassroom(classroomUrl);
+        const classroom = await scraper.parseClassroom(classroomUrl);
+        // Snapshot before single lesson mode narrows the tree down
+        const rawClassroom = options.saveRaw ? structuredClone(classroom) : null;
+        const skoolProgress = readSkoolProgress(classroom);
+        let { modules, courseName, groupName, courseImageUrl, updatedAt: courseUpdatedAt } = classroom;
 
         if (modules.length === 0) {
             throw new Error('No modules found. Are you sure this is a classroom URL and you are logged in?');
@@ -288,6 +547,7 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
         await fs.ensureDir(baseOutputDir);
         activeOutputDir = baseOutputDir;
         activeGroupDir = path.dirname(baseOutputDir);
+        const groupDir = activeGroupDir;
         registerShutdownHandlers(logger);
 
         const courseInfo: Array<{
@@ -362,9 +622,24 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
             }
         }
 
+        await saveGroupManifest(groupDir, classroom, downloader, logger);
+        const hasLibrary = isLibraryDir(path.dirname(groupDir));
+
+        const previousCourseManifest: CourseManifest | null = await fs.readJson(path.join(baseOutputDir, '.course.json')).catch(() => null);
+        if (options.incremental && courseUpdatedAt && previousCourseManifest?.remoteUpdatedAt === courseUpdatedAt) {
+            logger.info('🔁 Course unchanged since last sync, checking lessons...');
+        }
+        const themeDir = resolveThemeDir(options.themeDir, previousCourseManifest?.themeDir);
+        const theme = await loadTheme(themeDir);
+        if (options.videoQuality && Object.keys(options.videoQuality).length > 0) {
+            logger.info(`🎚️ Video quality: ${describeVideoQuality(options.videoQuality)}`);
+        }
+
         const courseManifest: CourseManifest = {
             courseName,
             groupName,
+            courseUrl: classroomUrl,
+            remoteUpdatedAt: courseUpdatedAt ?? previousCourseManifest?.remoteUpdatedAt,
             courseImageUrl,
             courseImagePath,
             modules: courseInfo.map(m => ({
@@ -373,11 +648,55 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
                 moduleDirName: m.moduleDirName,
                 root: modules.find(mod => mod.index === m.mIndex)?.root
             })),
+            themeDir,
+            skoolProgress,
             updatedAt: new Date().toISOString()
         };
 
         await writeAtomicJson(path.join(baseOutputDir, '.course.json'), courseManifest);
 
+        if (rawClassroom) {
+            const rawCourse: RawCourseFile = {
+                schemaVersion: RAW_SCHEMA_VERSION,
+                savedAt: courseManifest.updatedAt,
+                classroomUrl,
+                course: rawClassroom
+            };
+            await writeAtomicJson(path.join(baseOutputDir, COURSE_RAW_FILE), rawCourse);
+        }
+
+        // Lessons are tracked by id, so existing folders follow renames and reorders upstream
+        const expectedDirs = new Map<string, string>();
+        for (const [i, module] of modules.entries()) {
+            const moduleDir = path.join(baseOutputDir, courseInfo[i].moduleDirName);
+            for (const lesson of module.lessons) {
+                expectedDirs.set(lesson.id, path.join(moduleDir, `${lesson.index ?? 1}-${sanitizeName(lesson.title)}`));
+            }
+        }
+
+        const localLessons = await loadLocalLessons(baseOutputDir);
+        const { moved, archived } = await reconcileLessonFolders(
+            baseOutputDir,
+            expectedDirs,
+            localLessons,
+            !targetLessonId,
+            logger
+        );
+        const movedLessonIds = new Set(moved.map(local => local.manifest.lessonId));
+
+        const changelog: CourseChangelog = {
+            added: [],
+            changed: [],
+            moved: [],
+            removed: archived.map(local => ({
+                lessonId: local.manifest.lessonId,
+                title: local.manifest.title,
+                moduleTitle: local.manifest.moduleTitle
+            })),
+            unchanged: 0
+        };
+        let skippedLessons = 0;
+
         const tasks: LessonTask[] = [];
 
         for (let i = 0; i < modules.length; i++) {
@@ -391,6 +710,33 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
             for (const lesson of module.lessons) {
                 const lIndex = lesson.index ?? 1;
                 const taskTitle = `[${mInfo.mIndex}.${lIndex}] ${lesson.title}`;
+
+                if (options.incremental) {
+                    const entry: ChangelogEntry = { lessonId: lesson.id, title: lesson.title, moduleTitle: mInfo.title };
+                    const local = localLessons.get(lesson.id);
+                    const isCurrent = !!local
+                        && !local.archived
+                        && !!lesson.updatedAt
+                        && local.manifest.remoteUpdatedAt === lesson.updatedAt
+                        && !local.manifest.failedStages?.length
+                        && fs.existsSync(path.join(local.lessonDir, 'index.html'));
+
+                    if (movedLessonIds.has(lesson.id)) {
+                        // Moved lessons are re-rendered so breadcrumbs and lesson.json match the new location
+                        changelog.moved.push(entry);
+                    } else if (isCurrent) {
+                        if (lesson.completed !== undefined && local.manifest.completed !== lesson.completed) {
+                            // Finishing a lesson on Skool doesn't change it, so only the flag is refreshed
+                            await writeAtomicJson(path.join(local.lessonDir, 'lesson.json'), { ...local.manifest, completed: lesson.completed });
+                        }
+                        changelog.unchanged += 1;
+                        skippedLessons += 1;
+                        continue;
+                    } else {
+                        (local && !local.archived ? changelog.changed : changelog.added).push(entry);
+                    }
+                }
+
                 tasks.push({
                     title: taskTitle,
                     run: async (onStatus) => {
@@ -408,27 +754,89 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
                         });
 
                         logger.info(`\n  📄 Processing [${mInfo.mIndex}.${lIndex}] ${lesson.title}`);
+                        const failedStages = new Set<'video' | 'resource'>();
+                        const recordFailure = (stage: LessonFailure['stage'], err: unknown) => {
+                            const errorClass = classifyError(err);
+                            if (stage !== 'lesson') failedStages.add(stage);
+                            failures.push({
+                                lessonId: lesson.id,
+                                title: lesson.title,
+                                moduleTitle: mInfo.title,
+                                stage,
+                                errorClass,
+                                error: briefError(err)
+                            });
+                            return errorClass;
+                        };
 
                         try {
                             updateStatus('Loading lesson data...');
                             await fs.ensureDir(lessonDir);
-                            const lessonData = await scraper.extractLessonData(lesson.url);
+                            const lessonData = await scraper.extractLessonData(lesson.url, { comments: options.comments });
 
                             updateStatus('Localizing images...');
-                            const localizedHtml = await downloader.localizeImages(lessonData.contentHtml || '', lessonDir);
-
+                            let localizedHtml = await downloader.localizeImages(lessonData.contentHtml || '', lessonDir);
+
+                            const videos: LessonVideoEntry[] = [];
+                            // Skipped downloads report no duration or format, so keep the ones saved last time
+                            const previousVideos = localLessons.get(lesson.id)?.manifest.videos ?? [];
+                            const downloadDetails = (result: { file: string; durationSeconds?: number; format?: VideoFormat }) => {
+                                const previous = previousVideos.find(video => video.file === result.file);
+                                return {
+                                    durationSeconds: result.durationSeconds ?? previous?.durationSeconds,
+                                    format: result.format ?? previous?.format
+                                };
+                            };
                             let hasVideo = false;
                             if (lessonData.videoLink) {
                                 try {
                                     updateStatus('Downloading video...');
-                                    await downloader.downloadVideo(lessonData.videoLink, lessonDir, 'video');
+                                    const result = await downloader.downloadVideo(lessonData.videoLink, lessonDir, 'video', {
+                                        subtitles: options.subtitles,
+                                        quality: options.videoQuality
+                                    });
                                     hasVideo = true;
+                                    videos.push({
+                                        file: result.file,
+                                        source: detectVideoSource(lessonData.videoLink),
+                                        url: lessonData.videoLink,
+                                        embedded: false,
+                                        subtitles: result.subtitles,
+                                        ...downloadDetails(result)
+                                    });
                                 } catch (err) {
+                                    recordFailure('video', err);
                                     logger.warn(`    ⚠️ Failed to download video for ${lesson.title}`);
                                 }
                             }
 
-                            const resourcesHtml: string[] = [];
+                            // Embedded players in the lesson body become numbered local files
+                            const embeddedVideos = (lessonData.embeddedVideos || [])
+                                .filter(video => video.url !== lessonData.videoLink);
+                            for (const [embedIndex, video] of embeddedVideos.entries()) {
+                                const filename = `video-${embedIndex + 1}`;
+                                try {
+                                    updateStatus(`Downloading embedded video ${embedIndex + 1}/${embeddedVideos.length}...`);
+                                    const result = await downloader.downloadVideo(video.url, lessonDir, filename, {
+                                        subtitles: options.subtitles,
+                                        quality: options.videoQuality
+                                    });
+                                    localizedHtml = replaceEmbeddedVideo(localizedHtml, video, renderVideoTag(result.file, result.subtitles));
+                                    videos.push({
+                                        file: result.file,
+                                        source: video.source,
+                                        url: video.url,
+                                        embedded: true,
+                                        subtitles: result.subtitles,
+                                        ...downloadDetails(result)
+                                    });
+                                } catch (err) {
+                                    recordFailure('video', err);
+                                    logger.warn(`    ⚠️ Failed to download embedded ${video.source} video for ${lesson.title}, keeping the online player.`);
+                                }
+                            }
+
+                            const resources: LessonPageResource[] = [];
                             if (lessonData.resources && lessonData.resources.length > 0) {
                                 const resourcesDir = path.join(lessonDir, 'resources');
                                 await fs.ensureDir(resourcesDir);
@@ -438,7 +846,7 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
 
                                     if (res.isExternal) {
                                         logger.info(`    🔗 External resource linked: ${res.title}`);
-                                        return `<li><a href="${res.downloadUrl}" target="_blank">${res.title} (External)</a></li>`;
+                                        return { title: res.title, file: res.downloadUrl, isExternal: true };
                                     }
 
                                     try {
@@ -446,148 +854,59 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
                                         const safeFileName = sanitizeName(res.file_name || res.title);
                                         const resPath = path.join(resourcesDir, safeFileName);
 
-                                        if (fs.existsSync(resPath)) {
-                                            const stats = fs.statSync(resPath);
-                                            if (stats.size > 0) {
-                                                logger.info(`    ⏭️  Resource already exists, skipping: ${res.title}`);
-                                                return `<li><a href="resources/${encodeURIComponent(safeFileName)}" target="_blank">${res.title}</a></li>`;
-                                            }
+                                        if (await downloader.hasAsset(resPath)) {
+                                            logger.info(`    ⏭️  Resource already exists, skipping: ${res.title}`);
+                                            return { title: res.title, file: safeFileName };
                                         }
 
                                         logger.info(`    ⬇️  Downloading resource: ${res.title}`);
                                         await downloader.downloadAsset(res.downloadUrl, resPath);
-                                        return `<li><a href="resources/${encodeURIComponent(safeFileName)}" target="_blank">${res.title}</a></li>`;
+                                        return { title: res.title, file: safeFileName };
                                     } catch (err) {
+                                        recordFailure('resource', err);
                                         logger.warn(`    ⚠️  Failed to download resource ${res.title}: ${String(err)}`);
                                         return null;
                                     }
                                 });
 
                                 const results = await Promise.all(resTasks);
-                                results.forEach(r => { if (r) resourcesHtml.push(r); });
+                                results.forEach(r => { if (r) resources.push(r); });
                             }
 
-                            const isRootLesson = mInfo.moduleDirName.length === 0;
-                            const groupLink = isRootLesson ? '../../index.html' : '../../../index.html';
-                            const courseLink = isRootLesson ? '../index.html' : '../../index.html';
-                            const moduleBreadcrumb = isRootLesson
-                                ? ''
-                                : `<span>/</span><span>${module.title}</span>`;
-
-                            const htmlContent = `
-                            <!DOCTYPE html>
-                            <html>
-                            <head>
-                                <meta charset="UTF-8">
-                                <meta name="viewport" content="width=device-width, initial-scale=1">
-                                <title>${lessonData.title}</title>
-                                <style>
-                                    :root {
-                                        --bg: #f6f3ee;
-                                        --panel: #ffffff;
-                                        --panel-2: #f6f7fb;
-                                        --text: #14161d;
-                                        --muted: #5b6271;
-                                        --accent: #3b82f6;
-                                        --ring: rgba(20,22,29,0.08);
-                                        --shadow: 0 16px 32px rgba(15, 23, 42, 0.12);
-                                    }
-                                    * { box-sizing: border-box; }
-                                    body {
-                                        margin: 0;
-                                        font-family: "Space Grotesk", "Manrope", "Segoe UI", sans-serif;
-                                        background: linear-gradient(160deg, #fdfdfd 0%, #eff2fb 100%);
-                                        color: var(--text);
-                                        line-height: 1.7;
-                                    }
-                                    .page { max-width: 980px; margin: 48px auto 80px; padding: 0 22px; }
-                                    .breadcrumb {
-                                        font-size: 0.95rem;
-                                        color: var(--muted);
-                                        margin-bottom: 16px;
-                                        display: flex;
-                                        flex-wrap: wrap;
-                                        gap: 8px;
-                                        align-items: center;
-                                    }
-                                    .breadcrumb a { color: var(--accent); text-decoration: none; font-weight: 600; }
-                                    .breadcrumb span { color: var(--muted); }
-                                    .container {
-                                        background: var(--panel);
-                                        padding: 34px;
-                                        border-radius: 20px;
-                                        border: 1px solid rgba(20,22,29,0.05);
-                                        box-shadow:
-                                            0 25px 45px rgba(15, 23, 42, 0.18),
-                                            0 10px 20px rgba(15, 23, 42, 0.08);
-                                    }
-                                    h1 { margin: 0 0 16px 0; font-size: clamp(1.8rem, 3vw, 2.6rem); }
-                                    video {
-                                        width: 100%;
-                                        border-radius: 14px;
-                                        margin: 10px 0 26px;
-                                        display: block;
-                                        box-shadow: 0 10px 24px rgba(15, 23, 42, 0.2);
-                                        background: #000;
-                                    }
-                                    img { max-width: 100%; border-radius: 10px; height: auto; margin: 14px 0; }
-                                    .content { font-size: 1.05rem; }
-                                    .content p { margin-bottom: 1.2em; }
-                                    .resources {
-                                        background: var(--panel-2);
-                                        padding: 18px;
-                                        border-radius: 14px;
-                                        border: 1px solid var(--ring);
-                                        margin-top: 28px;
-                                    }
-                                    .resources h3 { margin: 0 0 10px 0; color: var(--accent); }
-                                    .resources ul { list-style: none; padding: 0; margin: 0; display: grid; gap: 8px; }
-                                    .resources a {
-                                        color: #1f3d7a;
-                                        font-weight: 600;
-                                        display: inline-flex;
-                                        align-items: center;
-                                        gap: 8px;
-                                        text-decoration: none;
-                                    }
-                                    .resources a::before { content: "📁"; }
-                                    a { color: var(--accent); text-decoration: none; word-break: break-word; }
-                                    a:hover { text-decoration: underline; }
-                                    .nav { margin-top: 28px; padding-top: 16px; border-top: 1px solid rgba(20,22,29,0.08); }
-                                </style>
-                            </head>
-                            <body>
-                                <div class="page">
-                                    <div class="breadcrumb">
-                                        <a href="${groupLink}">${groupName}</a>
-                                        <span>/</span>
-                                        <a href="${courseLink}">${courseName}</a>
-                                        ${moduleBreadcrumb}
-                                        <span>/</span>
-                                        <span>${lessonData.title}</span>
-                                    </div>
-                                    <div class="container">
-                                        <h1>${lessonData.title}</h1>
-                                        ${hasVideo ? '<video controls src="video.mp4"></video>' : ''}
-                                        <div class="content">
-                                            ${localizedHtml}
-                                        </div>
-                                        ${resourcesHtml.length > 0 ? `
-                                        <div class="resources">
-                                            <h3>Resources / Attachments</h3>
-                                            <ul>
-                                                ${resourcesHtml.join('')}
-                                            </ul>
-                                        </div>
-                                        ` : ''}
-                                        <div class="nav">
-                                            <a href="${courseLink}">Back to Course Index</a>
-                                        </div>
-                                    </div>
-                                </div>
-                            </body>
-                            </html>
-                        `;
+                            if (lessonData.contentJson) {
+                                await writeAtomicJson(path.join(lessonDir, 'content.json'), lessonData.contentJson);
+                            }
+
+                            let discussionHtml = '';
+                            let commentsCount: number | undefined;
+                            if (lessonData.comments) {
+                                updateStatus('Saving discussion...');
+                                commentsCount = countComments(lessonData.comments);
+                                await writeAtomicJson(path.join(lessonDir, 'comments.json'), lessonData.comments);
+                                if (commentsCount > 0) {
+                                    discussionHtml = await downloader.localizeImages(renderComments(lessonData.comments), lessonDir);
+                                }
+                            }
+
+                            const relativePath = mInfo.moduleDirName
+                                ? `${mInfo.moduleDirName}/${lessonDirName}/index.html`
+                                : `${lessonDirName}/index.html`;
+                            const htmlContent = renderLessonPage({
+                                lessonId: lesson.id,
+                                skoolCompleted: lesson.completed,
+                                title: lessonData.title,
+                                groupName,
+                                courseName,
+                                moduleTitle: module.title,
+                                isRootLesson: mInfo.moduleDirName.length === 0,
+                                hasLibrary,
+                                relativePath,
+                                video: hasVideo ? videos[0] : undefined,
+                                contentHtml: localizedHtml,
+                                resources,
+                                discussionHtml,
+                                commentsCount
+                            }, theme);
 
                             await fs.writeFile(path.join(lessonDir, 'index.html'), htmlContent);
 
@@ -600,49 +919,75 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
                                 lessonIndex: lIndex,
                                 moduleDirName: mInfo.moduleDirName,
                                 lessonDirName,
-                                relativePath: mInfo.moduleDirName
-                                    ? `${mInfo.moduleDirName}/${lessonDirName}/index.html`
-                                    : `${lessonDirName}/index.html`,
-                                hasVideo,
-                                resourcesCount: resourcesHtml.length,
+                                relativePath,
+                                videos,
+                                resourcesCount: resources.length,
+                                commentsCount,
+                                remoteUpdatedAt: lesson.updatedAt,
+                                completed: lesson.completed,
+                                failedStages: failedStages.size > 0 ? Array.from(failedStages) : undefined,
                                 updatedAt: new Date().toISOString()
                             };
 
                             await writeAtomicJson(path.join(lessonDir, 'lesson.json'), lessonManifest);
 
+                            if (options.saveRaw) {
+                                const rawLesson: RawLessonFile = {
+                                    schemaVersion: RAW_SCHEMA_VERSION,
+                                    savedAt: lessonManifest.updatedAt,
+                                    classroomUrl,
+                                    module: { index: mInfo.mIndex, title: mInfo.title, root: module.root },
+                                    // The classroom tree holds the index and timestamps the lesson page lacks
+                                    lesson: { ...lessonData, ...lesson }
+                                };
+                                await writeAtomicJson(path.join(lessonDir, LESSON_RAW_FILE), rawLesson);
+                            }
+
                             completedLessons += 1;
                             options.callbacks?.onLessonComplete?.({
                                 moduleIndex: mInfo.mIndex,
                                 lessonIndex: lIndex,
                                 lessonTitle: lesson.title,
-                                hasVideo,
-                                resourcesCount: resourcesHtml.length
+                                hasVideo: videos.length > 0,
+                                videosCount: videos.length,
+                                resourcesCount: resources.length
                             });
 
                             updateStatus('Updating course index...');
-                            indexLimit(() => regenerateIndex(baseOutputDir, { silent: options.suppressIndexLogs }));
+                            indexLimit(() => regenerateIndex(baseOutputDir, { silent: options.suppressIndexLogs, searchIndex: false }));
                         } catch (err) {
                             failedLessons += 1;
+                            const errorClass = recordFailure('lesson', err);
                             options.callbacks?.onLessonError?.({
                                 moduleIndex: mInfo.mIndex,
                                 lessonIndex: lIndex,
                                 lessonTitle: lesson.title,
-                                error: err
+                                error: err,
+                                errorClass
                             });
-                            logger.error(`    ⚠️ Error processing lesson ${lesson.title}: ${String(err)}`);
+                            logger.error(`    ⚠️ Error processing lesson ${lesson.title} (${errorClass}): ${String(err)}`);
                         }
                     }
                 });
             }
         }
 
+        if (options.incremental) {
+            logger.info(`🔁 Sync plan: ${changelog.added.length} new, ${changelog.changed.length} changed, ${changelog.moved.length} moved, ${changelog.unchanged} unchanged, ${changelog.removed.length} removed.`);
+        }
+
         if (options.runTasks) {
             await options.runTasks(tasks, concurrency);
         } else {
             await runConcurrent(tasks.map(task => () => task.run()), concurrency);
         }
         await indexLimit(() => regenerateIndex(baseOutputDir, { silent: options.suppressIndexLogs }));
-        await groupIndexLimit(() => regenerateGroupIndex(activeGroupDir ?? path.dirname(baseOutputDir), { silent: options.suppressIndexLogs }));
+        await groupIndexLimit(async () => {
+            await regenerateGroupIndex(activeGroupDir ?? groupDir, { silent: options.suppressIndexLogs });
+            if (hasLibrary) {
+                await regenerateLibraryIndex(path.dirname(groupDir), { silent: options.suppressIndexLogs });
+            }
+        });
 
         const summary: DownloadSummary = {
             courseName,
@@ -652,9 +997,32 @@ export async function downloadCourse(options: DownloadOptions): Promise<Download
             lessonsCount: totalLessons,
             completedLessons,
             failedLessons,
-            targetLessonId
+            skippedLessons,
+            targetLessonId,
+            changelog: options.incremental ? changelog : undefined,
+            failures
         };
 
+        if (!targetLessonId) {
+            const failuresPath = path.join(baseOutputDir, FAILURES_FILE);
+            if (failures.length > 0) {
+                await writeAtomicJson(failuresPath, { updatedAt: new Date().toISOString(), failures });
+            } else {
+                await fs.remove(failuresPath);
+            }
+        }
+        if (failures.length > 0) {
+            const transient = failures.filter(failure => failure.errorClass === 'transient').length;
+            // Single-lesson runs leave the course's failure list alone, so their failures are listed here
+            const details = targetLessonId ? '' : ` (details in ${FAILURES_FILE})`;
+            logger.warn(`\n⚠️ ${failures.length} failed after retries${details}: ${transient} transient (a rerun may fix them), ${failures.length - transient} permanent (check access or the source).`);
+            if (targetLessonId) {
+                for (const failure of failures) {
+                    logger.warn(`   ${failure.stage} (${failure.errorClass}): ${failure.error}`);
+                }
+            }
+        }
+
         options.callbacks?.onCourseComplete?.(summary);
 
         logger.info('\n✨ All downloads complete!');
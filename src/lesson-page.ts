@@ -0,0 +1,120 @@
+import { renderCourseNav } from './course-nav.js';
+import type { SubtitleTrack } from './downloader.js';
+import { renderLessonProgress } from './progress.js';
+import type { LessonComment } from './scraper.js';
+import { renderTemplate, THEME_ASSETS_DIR_NAME, type Theme } from './theme.js';
+import { escapeHtml } from './tiptap.js';
+import { renderVideoTag } from './videos.js';
+
+export type LessonPageResource = {
+    title: string;
+    /** File name inside the lesson's `resources/` folder, or the URL of an external link. */
+    file: string;
+    isExternal?: boolean;
+};
+
+export type LessonPageData = {
+    /** Skool lesson id; keys the lesson's progress in the browser. */
+    lessonId: string;
+    /** Completed on Skool; the browser's progress starts out from it. */
+    skoolCompleted?: boolean;
+    title: string;
+    groupName: string;
+    courseName: string;
+    moduleTitle: string;
+    /** Lessons of courses without modules sit directly in the course folder. */
+    isRootLesson: boolean;
+    /** The group folder sits in the library folder, so the breadcrumb starts at the library page. */
+    hasLibrary?: boolean;
+    /** The page's path inside the course folder, as recorded in `lesson.json`. */
+    relativePath: string;
+    /** The lesson's main video, played above the content. */
+    video?: { file: string; subtitles?: SubtitleTrack[] };
+    /** Lesson body with images and embedded videos already pointing at local files. */
+    contentHtml: string;
+    resources: LessonPageResource[];
+    discussionHtml?: string;
+    commentsCount?: number;
+};
+
+export function countComments(comments: LessonComment[]): number {
+    return comments.reduce((sum, comment) => sum + 1 + countComments(comment.replies), 0);
+}
+
+export function renderComments(comments: LessonComment[]): string {
+    return comments.map(comment => {
+        const avatar = comment.author.avatarUrl
+            ? `<img class="comment-avatar" src="${escapeHtml(comment.author.avatarUrl)}" alt="" />`
+            : `<div class="comment-avatar comment-avatar-fallback">${escapeHtml(comment.author.name.charAt(0).toUpperCase())}</div>`;
+        const dateLabel = comment.createdAt ? new Date(comment.createdAt).toLocaleString() : '';
+        const replies = comment.replies.length > 0
+            ? `<div class="comment-replies">${renderComments(comment.replies)}</div>`
+            : '';
+        return `
+            <div class="comment">
+                ${avatar}
+                <div class="comment-main">
+                    <div class="comment-meta"><strong>${escapeHtml(comment.author.name)}</strong>${dateLabel ? ` · ${escapeHtml(dateLabel)}` : ''}${comment.likes ? ` · 👍 ${comment.likes}` : ''}</div>
+                    <div class="comment-body">${comment.contentHtml}</div>
+                    ${replies}
+                </div>
+            </div>
+        `;
+    }).join('');
+}
+
+function renderResource(resource: LessonPageResource) {
+    if (resource.isExternal) {
+        return `<li><a href="${resource.file}" target="_blank">${resource.title} (External)</a></li>`;
+    }
+    return `<li><a href="resources/${encodeURIComponent(resource.file)}" target="_blank">${resource.title}</a></li>`;
+}
+
+/**
+ * Builds a lesson's `index.html` from the theme's `lesson.html`. Used both while downloading
+ * and by `rerender`, which rebuilds pages from the files saved next to them.
+ */
+export function renderLessonPage(data: LessonPageData, theme: Theme): string {
+    const groupLink = data.isRootLesson ? '../../index.html' : '../../../index.html';
+    const courseLink = data.isRootLesson ? '../index.html' : '../../index.html';
+    const libraryBreadcrumb = data.hasLibrary
+        ? `<a href="${data.isRootLesson ? '../../../index.html' : '../../../../index.html'}">Library</a>
+            <span>/</span>`
+        : '';
+    const moduleBreadcrumb = data.isRootLesson
+        ? ''
+        : `<span>/</span><span>${data.moduleTitle}</span>`;
+    const resourcesHtml = data.resources.map(renderResource).join('');
+    const nav = renderCourseNav(data.isRootLesson ? '../' : '../../', data.relativePath);
+
+    return renderTemplate(theme.templates.lesson, {
+        title: data.title,
+        groupName: data.groupName,
+        courseName: data.courseName,
+        libraryBreadcrumb,
+        groupLink,
+        courseLink,
+        moduleBreadcrumb,
+        video: data.video ? renderVideoTag(data.video.file, data.video.subtitles) : '',
+        progress: renderLessonProgress(data.lessonId, Boolean(data.video), data.skoolCompleted),
+        // Exports and rerender read the body and resources back from these wrappers
+        content: `<div class="content">
+                ${data.contentHtml}
+            </div>`,
+        resources: resourcesHtml ? `<div class="resources">
+                <h3>Resources / Attachments</h3>
+                <ul>
+                    ${resourcesHtml}
+                </ul>
+            </div>` : '',
+        discussion: data.discussionHtml ? `<details class="discussion">
+                <summary>Discussion (${data.commentsCount})</summary>
+                <div class="discussion-body">
+                    ${data.discussionHtml}
+                </div>
+            </details>` : '',
+        navigation: nav.pager,
+        sidebar: nav.sidebar,
+        themeDir: data.isRootLesson ? `../${THEME_ASSETS_DIR_NAME}` : `../../${THEME_ASSETS_DIR_NAME}`
+    });
+}
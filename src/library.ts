@@ -0,0 +1,62 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+/** Written next to a group's course folders with what the library page shows for the group. */
+export const GROUP_MANIFEST_FILE = '.group.json';
+
+/** Marks a folder that has a library index, so pages outside `downloads/` link up to it too. */
+export const LIBRARY_MANIFEST_FILE = '.library.json';
+
+/** Folder inside a group folder for the group's logo and cover (dot-named so it isn't taken for a course). */
+export const GROUP_ASSETS_DIR_NAME = '.group';
+
+/** Folder inside a course folder where lessons removed upstream are kept. */
+export const ARCHIVE_DIR_NAME = '_archived';
+
+/** Folder inside a course folder that the podcast export writes to unless told otherwise. */
+export const PODCAST_DIR_NAME = 'podcast';
+
+export type GroupManifest = {
+    groupName: string;
+    /** Relative to the group folder. */
+    logoPath?: string;
+    coverPath?: string;
+    updatedAt: string;
+};
+
+export function defaultLibraryDir() {
+    return path.join(process.cwd(), 'downloads');
+}
+
+/**
+ * Whether `dir` holds the library home page: the default `downloads/` folder, or one a library
+ * index was generated in before. Pages below it link up to that page.
+ */
+export function isLibraryDir(dir: string) {
+    return path.resolve(dir) === path.resolve(defaultLibraryDir())
+        || fs.existsSync(path.join(dir, LIBRARY_MANIFEST_FILE));
+}
+
+/**
+ * Whether a folder inside a course folder is a module or lesson, rather than a dot folder,
+ * the course page assets, archived lessons or the podcast export.
+ */
+export function isCourseContentDir(name: string) {
+    return !name.startsWith('.') && name !== 'assets' && name !== ARCHIVE_DIR_NAME && name !== PODCAST_DIR_NAME;
+}
+
+/** Makes a title safe as a file or folder name, the same way the downloader names folders. */
+export function sanitizeName(value: string) {
+    return value.replace(/[/\\?%*:|"<>]/g, '-');
+}
+
+/** Writes JSON through a temporary file so readers never see a half-written manifest. */
+export async function writeAtomicJson(filePath: string, data: unknown) {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeJson(tempPath, data, { spaces: 2 });
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+export async function readGroupManifest(groupDir: string): Promise<GroupManifest | null> {
+    return fs.readJson(path.join(groupDir, GROUP_MANIFEST_FILE)).catch(() => null);
+}
@@ -0,0 +1,230 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { Scraper, type FetchMode } from './scraper.js';
+import { Downloader, VIDEO_FILE_EXTENSIONS, type VideoQualityOptions } from './downloader.js';
+import { loadLocalLessons, resolveTargetLessonId, type DownloadMode } from './index.js';
+import { sanitizeName } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { detectVideoSource, type VideoSource } from './videos.js';
+
+export type PlanOptions = {
+    url: string;
+    outputDir?: string;
+    /** Same as for `downloadCourse`: a lesson URL (`?md=`) plans only that lesson unless mode is `course`. */
+    mode?: DownloadMode;
+    lessonId?: string | null;
+    concurrency?: number;
+    fetchMode?: FetchMode;
+    /** Size estimates are for the formats these settings would pick. */
+    videoQuality?: VideoQualityOptions;
+    logger?: Logger;
+    /** Called after each lesson page has been inspected, for progress output. */
+    onLessonPlanned?: (lesson: LessonPlan, done: number, total: number) => void;
+};
+
+export type VideoPlan = {
+    url: string;
+    source: VideoSource;
+    embedded: boolean;
+    present: boolean;
+    estimatedBytes?: number;
+};
+
+export type LessonPlan = {
+    lessonId: string;
+    title: string;
+    lessonIndex: number;
+    videos: VideoPlan[];
+    resourcesCount: number;
+    /** A lesson page and lesson.json for this lesson id already exist locally. */
+    present: boolean;
+    error?: string;
+};
+
+export type ModulePlan = {
+    index: number;
+    title: string;
+    lessons: LessonPlan[];
+};
+
+export type CoursePlan = {
+    courseName: string;
+    groupName: string;
+    outputDir: string;
+    modules: ModulePlan[];
+    lessonsCount: number;
+    presentLessons: number;
+    videosCount: number;
+    /** Estimated bytes still to download (videos not present locally). */
+    estimatedBytes: number;
+    /** Videos that still need downloading but whose size yt-dlp could not report. */
+    unknownSizeVideos: number;
+};
+
+export function formatBytes(bytes: number) {
+    if (bytes < 1024) return `${bytes} B`;
+    const units = ['KB', 'MB', 'GB', 'TB'];
+    let value = bytes / 1024;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+        value /= 1024;
+        unit += 1;
+    }
+    return `${value.toFixed(value >= 10 ? 0 : 1)} ${units[unit]}`;
+}
+
+/**
+ * Resolves a course structure and inspects every lesson page without writing anything to disk,
+ * reporting videos, resources, what is already downloaded and an estimated download size.
+ */
+export async function planCourse(options: PlanOptions): Promise<CoursePlan> {
+    const logger = options.logger ?? createConsoleLogger();
+    const concurrency = Math.max(1, Math.min(16, Math.floor(options.concurrency ?? 4)));
+    const inputUrl = options.url.replace(/\\/g, '');
+    const targetLessonId = resolveTargetLessonId(inputUrl, options.mode ?? 'auto', options.lessonId);
+    const classroomUrl = inputUrl.split('?')[0];
+
+    const scraper = new Scraper(logger, { fetchMode: options.fetchMode });
+    const downloader = new Downloader(logger);
+    // Nothing is written to the downloads folder, but yt-dlp is installed into bin/ on first use
+    // so sizes can be estimated. Without it every size is reported as unknown.
+    let probeReady: Promise<boolean> | null = null;
+    const canProbe = () => probeReady ??= downloader.init().then(() => true, err => {
+        logger.warn(`⚠️ Could not install yt-dlp, so video sizes are unknown: ${String(err)}`);
+        return false;
+    });
+
+    try {
+        let { modules, courseName, groupName } = await scraper.parseClassroom(classroomUrl);
+        if (targetLessonId) {
+            const module = modules.find(candidate => candidate.lessons.some(lesson => lesson.id === targetLessonId));
+            if (!module) {
+                throw new Error(`Could not find lesson with ID ${targetLessonId} in this classroom.`);
+            }
+            modules = [{ ...module, lessons: module.lessons.filter(lesson => lesson.id === targetLessonId) }];
+        }
+        const outputDir = options.outputDir && options.outputDir !== 'undefined'
+            ? options.outputDir
+            : path.join(process.cwd(), 'downloads', sanitizeName(groupName), sanitizeName(courseName));
+
+        const localLessons = await loadLocalLessons(outputDir);
+        const total = modules.reduce((sum, module) => sum + module.lessons.length, 0);
+        let done = 0;
+
+        const modulePlans: ModulePlan[] = modules.map(module => ({
+            index: module.index,
+            title: module.title,
+            lessons: []
+        }));
+
+        const jobs = modules.flatMap((module, moduleIndex) => module.lessons.map(lesson => async () => {
+            const local = localLessons.get(lesson.id);
+            const localDir = local && !local.archived ? local.lessonDir : null;
+            const plan: LessonPlan = {
+                lessonId: lesson.id,
+                title: lesson.title,
+                lessonIndex: lesson.index ?? 1,
+                videos: [],
+                resourcesCount: 0,
+                present: !!localDir && fs.existsSync(path.join(localDir, 'index.html'))
+            };
+
+            try {
+                const lessonData = await scraper.extractLessonData(lesson.url);
+                plan.resourcesCount = lessonData.resources?.length ?? 0;
+
+                const videos: Array<Omit<VideoPlan, 'present' | 'estimatedBytes'> & { filename: string }> = [];
+                if (lessonData.videoLink) {
+                    videos.push({ url: lessonData.videoLink, source: detectVideoSource(lessonData.videoLink), embedded: false, filename: 'video' });
+                }
+                (lessonData.embeddedVideos || [])
+                    .filter(video => video.url !== lessonData.videoLink)
+                    .forEach((video, index) => {
+                        videos.push({ url: video.url, source: video.source, embedded: true, filename: `video-${index + 1}` });
+                    });
+
+                for (const { filename, ...video } of videos) {
+                    // A file saved with other quality settings is kept by the download, so it counts
+                    const present = !!localDir && VIDEO_FILE_EXTENSIONS.some(extension => fs.existsSync(path.join(localDir, `${filename}.${extension}`)));
+                    let estimatedBytes: number | undefined;
+                    if (!present && await canProbe()) {
+                        try {
+                            estimatedBytes = (await downloader.probeVideo(video.url, options.videoQuality)).estimatedBytes;
+                        } catch (err) {
+                            logger.warn(`    ⚠️ Could not read video metadata for ${lesson.title}: ${String(err)}`);
+                        }
+                    }
+                    plan.videos.push({ ...video, present, estimatedBytes });
+                }
+            } catch (err) {
+                plan.error = String(err);
+            }
+
+            modulePlans[moduleIndex].lessons.push(plan);
+            done += 1;
+            options.onLessonPlanned?.(plan, done, total);
+        }));
+
+        let next = 0;
+        await Promise.all(Array.from({ length: Math.min(concurrency, jobs.length) }, async () => {
+            while (next < jobs.length) {
+                const job = jobs[next];
+                next += 1;
+                await job();
+            }
+        }));
+
+        modulePlans.forEach(module => module.lessons.sort((a, b) => a.lessonIndex - b.lessonIndex));
+
+        const allLessons = modulePlans.flatMap(module => module.lessons);
+        const pendingVideos = allLessons.flatMap(lesson => lesson.videos).filter(video => !video.present);
+
+        return {
+            courseName,
+            groupName,
+            outputDir,
+            modules: modulePlans,
+            lessonsCount: allLessons.length,
+            presentLessons: allLessons.filter(lesson => lesson.present).length,
+            videosCount: allLessons.reduce((sum, lesson) => sum + lesson.videos.length, 0),
+            estimatedBytes: pendingVideos.reduce((sum, video) => sum + (video.estimatedBytes ?? 0), 0),
+            unknownSizeVideos: pendingVideos.filter(video => video.estimatedBytes === undefined).length
+        };
+    } finally {
+        await scraper.close();
+    }
+}
+
+/** `~1.2 GB to download`, naming videos whose size is unknown instead of silently leaving them out. */
+export function describeDownloadSize(estimatedBytes: number, unknownSizeVideos: number) {
+    if (unknownSizeVideos === 0) return `~${formatBytes(estimatedBytes)} to download`;
+    if (estimatedBytes === 0) return `download size unknown (${unknownSizeVideos} videos of unknown size)`;
+    return `~${formatBytes(estimatedBytes)} to download plus ${unknownSizeVideos} videos of unknown size`;
+}
+
+export function formatPlan(plan: CoursePlan): string {
+    const lines = [
+        `📘 ${plan.courseName} · ${plan.groupName}`,
+        `   → ${plan.outputDir}`
+    ];
+
+    for (const module of plan.modules) {
+        lines.push(`   ${module.index}. ${module.title}`);
+        for (const lesson of module.lessons) {
+            const tags: string[] = [];
+            if (lesson.videos.length > 0) {
+                const sizes = lesson.videos
+                    .filter(video => !video.present)
+                    .map(video => video.estimatedBytes !== undefined ? formatBytes(video.estimatedBytes) : '?');
+                tags.push(`🎬 ${lesson.videos.length}${sizes.length > 0 ? ` (${sizes.join(' + ')})` : ''}`);
+            }
+            if (lesson.resourcesCount > 0) tags.push(`📁 ${lesson.resourcesCount}`);
+            if (lesson.present) tags.push('✅ present');
+            if (lesson.error) tags.push(`⚠️ ${lesson.error}`);
+            lines.push(`      ${lesson.lessonIndex}. ${lesson.title}${tags.length > 0 ? `  ${tags.join(' · ')}` : ''}`);
+        }
+    }
+
+    lines.push(`   ${plan.lessonsCount} lessons · ${plan.videosCount} videos · ${plan.presentLessons} already present · ${describeDownloadSize(plan.estimatedBytes, plan.unknownSizeVideos)}`);
+    return lines.join('\n');
+}
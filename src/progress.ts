@@ -0,0 +1,225 @@
+const PROGRESS_CSS = `
+.progress { display: flex; align-items: center; gap: 10px; font-size: 0.9rem; color: var(--muted, #5b6271); }
+.progress-track { flex: 1; height: 8px; border-radius: 999px; background: var(--ring, rgba(20,22,29,0.08)); overflow: hidden; min-width: 80px; }
+.progress-fill { height: 100%; width: 0; background: var(--accent, #3b82f6); transition: width 0.3s ease; }
+.progress-tools { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 14px; }
+.progress-tools button, .mark-complete {
+    font: inherit;
+    font-size: 0.9rem;
+    padding: 8px 14px;
+    border-radius: 999px;
+    border: 1px solid var(--ring, rgba(20,22,29,0.12));
+    background: var(--panel-2, #f6f7fb);
+    color: inherit;
+    cursor: pointer;
+}
+.mark-complete { margin: 0 0 18px; }
+.mark-complete[aria-pressed="true"] { background: var(--accent, #3b82f6); border-color: var(--accent, #3b82f6); color: #fff; }
+.lesson-check {
+    width: 20px;
+    height: 20px;
+    flex-shrink: 0;
+    padding: 0;
+    border-radius: 50%;
+    border: 2px solid var(--ring, rgba(20,22,29,0.2));
+    background: transparent;
+    cursor: pointer;
+    font-size: 12px;
+    line-height: 1;
+    color: #fff;
+}
+.lesson-check[aria-pressed="true"] { background: var(--accent, #3b82f6); border-color: var(--accent, #3b82f6); }
+.lesson-check[aria-pressed="true"]::before { content: "✓"; }
+`.trim();
+
+// Runs in the browser. Progress is kept in localStorage under one key, as
+// { lessons: { [lessonId]: { completed, position, updatedAt } } }, so every page of the archive
+// reads and updates the same record.
+const PROGRESS_SCRIPT = `
+(function () {
+    var KEY = 'skool-downloader-progress';
+
+    function load() {
+        try {
+            var data = JSON.parse(localStorage.getItem(KEY) || '{}');
+            return data && data.lessons ? data : { lessons: {} };
+        } catch (err) {
+            return { lessons: {} };
+        }
+    }
+    function save(data) {
+        try { localStorage.setItem(KEY, JSON.stringify(data)); } catch (err) {}
+    }
+    function update(lessonId, changes) {
+        var data = load();
+        var entry = data.lessons[lessonId] || {};
+        for (var name in changes) entry[name] = changes[name];
+        entry.updatedAt = new Date().toISOString();
+        data.lessons[lessonId] = entry;
+        save(data);
+        render();
+    }
+    function isDone(data, lessonId) {
+        return !!(data.lessons[lessonId] && data.lessons[lessonId].completed);
+    }
+    function each(selector, fn) {
+        Array.prototype.forEach.call(document.querySelectorAll(selector), fn);
+    }
+
+    function render() {
+        var data = load();
+        each('[data-complete-toggle]', function (button) {
+            var done = isDone(data, button.getAttribute('data-lesson-id'));
+            button.setAttribute('aria-pressed', done ? 'true' : 'false');
+            if (button.classList.contains('mark-complete')) button.textContent = done ? '✓ Completed' : 'Mark complete';
+        });
+        each('.progress[data-lesson-ids]', function (bar) {
+            var ids = bar.getAttribute('data-lesson-ids').split(',').filter(Boolean);
+            var done = ids.filter(function (id) { return isDone(data, id); }).length;
+            var percent = ids.length ? Math.round(done / ids.length * 100) : 0;
+            bar.querySelector('.progress-fill').style.width = percent + '%';
+            bar.querySelector('.progress-label').textContent = done + ' / ' + ids.length + ' completed';
+        });
+    }
+
+    function setUp() {
+        // Lessons finished on Skool start out complete. The seed has no date, so any change made
+        // here or brought in by an import wins over it.
+        var seeded = load();
+        var changed = false;
+        each('[data-skool-completed]', function (element) {
+            var lessonId = element.getAttribute('data-lesson-id');
+            if (seeded.lessons[lessonId]) return;
+            seeded.lessons[lessonId] = { completed: true, updatedAt: '' };
+            changed = true;
+        });
+        if (changed) save(seeded);
+
+        each('[data-complete-toggle]', function (button) {
+            button.addEventListener('click', function (event) {
+                event.preventDefault();
+                var lessonId = button.getAttribute('data-lesson-id');
+                update(lessonId, { completed: !isDone(load(), lessonId) });
+            });
+        });
+
+        var resume = document.querySelector('[data-resume-lesson]');
+        var video = resume && document.querySelector('video');
+        if (video) {
+            var lessonId = resume.getAttribute('data-resume-lesson');
+            var lastSaved = 0;
+            video.addEventListener('loadedmetadata', function () {
+                var entry = load().lessons[lessonId];
+                if (entry && entry.position > 5 && entry.position < video.duration - 5) video.currentTime = entry.position;
+            });
+            video.addEventListener('timeupdate', function () {
+                if (Math.abs(video.currentTime - lastSaved) < 5) return;
+                lastSaved = video.currentTime;
+                update(lessonId, { position: Math.floor(video.currentTime) });
+            });
+            video.addEventListener('pause', function () {
+                update(lessonId, { position: Math.floor(video.currentTime) });
+            });
+            video.addEventListener('ended', function () {
+                update(lessonId, { position: 0, completed: true });
+            });
+        }
+
+        each('[data-progress-export]', function (button) {
+            button.addEventListener('click', function () {
+                var blob = new Blob([JSON.stringify(load(), null, 2)], { type: 'application/json' });
+                var link = document.createElement('a');
+                link.href = URL.createObjectURL(blob);
+                link.download = 'skool-progress.json';
+                document.body.appendChild(link);
+                link.click();
+                link.remove();
+            });
+        });
+        each('[data-progress-import]', function (button) {
+            button.addEventListener('click', function () {
+                var input = document.createElement('input');
+                input.type = 'file';
+                input.accept = 'application/json,.json';
+                input.addEventListener('change', function () {
+                    if (!input.files || !input.files[0]) return;
+                    input.files[0].text().then(function (text) {
+                        var incoming = JSON.parse(text);
+                        if (!incoming || !incoming.lessons) throw new Error('not a progress file');
+                        var data = load();
+                        // Keep whichever side changed a lesson last
+                        for (var id in incoming.lessons) {
+                            var mine = data.lessons[id];
+                            var theirs = incoming.lessons[id];
+                            if (!mine || (theirs.updatedAt || '') > (mine.updatedAt || '')) data.lessons[id] = theirs;
+                        }
+                        save(data);
+                        render();
+                    }).catch(function () {
+                        alert('That file is not a progress export.');
+                    });
+                });
+                input.click();
+            });
+        });
+
+        // Progress changed in another tab, e.g. a lesson marked complete while the index is open
+        window.addEventListener('storage', function (event) {
+            if (event.key === KEY) render();
+        });
+        render();
+    }
+
+    if (document.readyState === 'loading') {
+        document.addEventListener('DOMContentLoaded', setUp);
+    } else {
+        setUp();
+    }
+})();
+`.trim();
+
+function renderProgressAssets() {
+    return `<style>${PROGRESS_CSS}</style>
+    <script>${PROGRESS_SCRIPT}</script>`;
+}
+
+/** Progress bar over a set of lessons, filled in the browser. */
+export function renderProgressBar(lessonIds: string[]): string {
+    return `<div class="progress" data-lesson-ids="${lessonIds.join(',')}">
+        <div class="progress-track"><div class="progress-fill"></div></div>
+        <span class="progress-label">${lessonIds.length} lessons</span>
+    </div>`;
+}
+
+function skoolCompletedAttribute(skoolCompleted?: boolean) {
+    return skoolCompleted ? ' data-skool-completed' : '';
+}
+
+/** Round complete/incomplete toggle shown next to a lesson in the course index. */
+export function renderLessonToggle(lessonId: string, skoolCompleted?: boolean): string {
+    return `<button type="button" class="lesson-check" data-complete-toggle data-lesson-id="${lessonId}"${skoolCompletedAttribute(skoolCompleted)} aria-pressed="false" title="Mark complete"></button>`;
+}
+
+/**
+ * Progress section of an index page: an optional bar, export/import buttons and the script
+ * that drives every progress element on the page.
+ */
+export function renderProgressTools(lessonIds?: string[]): string {
+    return `<div class="progress-box">
+    ${lessonIds ? renderProgressBar(lessonIds) : ''}
+    <div class="progress-tools">
+        <button type="button" data-progress-export>Export progress</button>
+        <button type="button" data-progress-import>Import progress</button>
+    </div>
+    ${renderProgressAssets()}
+</div>`;
+}
+
+/**
+ * "Mark complete" button for a lesson page. With `resumeVideo` the main video also remembers
+ * its playback position and marks the lesson complete when it ends.
+ */
+export function renderLessonProgress(lessonId: string, resumeVideo: boolean, skoolCompleted?: boolean): string {
+    return `<button type="button" class="mark-complete" data-complete-toggle data-lesson-id="${lessonId}"${skoolCompletedAttribute(skoolCompleted)}${resumeVideo ? ` data-resume-lesson="${lessonId}"` : ''} aria-pressed="false">Mark complete</button>
+    ${renderProgressAssets()}`;
+}
@@ -0,0 +1,45 @@
+import fs from 'fs-extra';
+import type { ClassroomResult, Lesson } from './scraper.js';
+
+/**
+ * Version of the `--save-raw` file layout. Bump it when a field is renamed or removed so
+ * readers can tell older dumps apart; adding optional fields does not need a bump.
+ */
+export const RAW_SCHEMA_VERSION = 1;
+
+export const LESSON_RAW_FILE = 'lesson.raw.json';
+export const COURSE_RAW_FILE = '.course.raw.json';
+
+/** Everything the scraper knew about a lesson, saved next to its `lesson.json`. */
+export type RawLessonFile = {
+    schemaVersion: number;
+    savedAt: string;
+    classroomUrl: string;
+    module: {
+        index: number;
+        title: string;
+        root?: boolean;
+    };
+    lesson: Lesson;
+};
+
+/** The full classroom tree as parsed from Skool, saved next to `.course.json`. */
+export type RawCourseFile = {
+    schemaVersion: number;
+    savedAt: string;
+    classroomUrl: string;
+    course: ClassroomResult;
+};
+
+/**
+ * Reads a raw dump written by `--save-raw`. Returns `null` when the file is missing and throws
+ * when it was written by a newer version of the layout than this build understands.
+ */
+export async function readRawFile<T extends { schemaVersion: number }>(filePath: string): Promise<T | null> {
+    if (!await fs.pathExists(filePath)) return null;
+    const data: T = await fs.readJson(filePath);
+    if (typeof data?.schemaVersion !== 'number' || data.schemaVersion > RAW_SCHEMA_VERSION) {
+        throw new Error(`${filePath} uses raw schema version ${data?.schemaVersion}, expected ${RAW_SCHEMA_VERSION} or older.`);
+    }
+    return data;
+}
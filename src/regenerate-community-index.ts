@@ -0,0 +1,274 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { escapeHtml } from './tiptap.js';
+
+type CommunityManifest = {
+    groupName: string;
+    groupUrl: string;
+    postsCount: number;
+    updatedAt: string;
+};
+
+type PostManifest = {
+    postId: string;
+    title: string;
+    postDirName: string;
+    author: {
+        name: string;
+        avatarPath?: string;
+    };
+    createdAt?: string;
+    pinned: boolean;
+    category?: string;
+    likes?: number;
+    commentsCount?: number;
+    excerpt: string;
+    attachments: Array<{ title: string; isImage?: boolean }>;
+};
+
+type RegenerateOptions = {
+    silent?: boolean;
+};
+
+async function writeAtomicHtml(filePath: string, content: string) {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+/**
+ * Regenerates the community feed index.html from the archived posts/<post>/post.json manifests.
+ * Pinned posts are listed first, then everything else newest first.
+ */
+async function regenerateCommunityIndex(
+    communityDir: string,
+    options: RegenerateOptions = {}
+) {
+    const log = options.silent ? () => {} : console.log;
+    const warn = options.silent ? () => {} : console.warn;
+
+    const postsDir = path.join(communityDir, 'posts');
+    if (!fs.existsSync(postsDir)) {
+        log(`Community posts directory not found: ${postsDir}`);
+        return;
+    }
+
+    let communityManifest: CommunityManifest | null = null;
+    const communityManifestPath = path.join(communityDir, '.community.json');
+    if (await fs.pathExists(communityManifestPath)) {
+        try {
+            communityManifest = await fs.readJson(communityManifestPath);
+        } catch {
+            warn('⚠️ Failed to read community manifest, falling back to directory names.');
+        }
+    }
+
+    const entries = await fs.readdir(postsDir, { withFileTypes: true });
+    const posts: PostManifest[] = [];
+
+    for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        const manifestPath = path.join(postsDir, entry.name, 'post.json');
+        if (!await fs.pathExists(manifestPath)) continue;
+        try {
+            posts.push(await fs.readJson(manifestPath));
+        } catch {
+            warn(`⚠️ Failed to read manifest for post ${entry.name}, skipping.`);
+        }
+    }
+
+    posts.sort((a, b) => {
+        if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+        const timeA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
+        const timeB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
+        return timeB - timeA;
+    });
+
+    const groupName = communityManifest?.groupName || path.basename(path.dirname(communityDir));
+    const pinnedCount = posts.filter(post => post.pinned).length;
+    const attachmentsCount = posts.reduce((acc, post) => acc + post.attachments.length, 0);
+
+    const postCards = posts.map(post => {
+        const postLink = `posts/${encodeURIComponent(post.postDirName)}/index.html`;
+        const avatar = post.author.avatarPath
+            ? `<img class="avatar" src="posts/${encodeURIComponent(post.postDirName)}/${post.author.avatarPath}" alt="">`
+            : `<div class="avatar avatar-fallback">${escapeHtml(post.author.name.charAt(0).toUpperCase())}</div>`;
+        const dateLabel = post.createdAt ? new Date(post.createdAt).toLocaleDateString() : 'Unknown date';
+
+        return `
+            <a class="post-card${post.pinned ? ' is-pinned' : ''}" href="${postLink}">
+                <div class="post-author">
+                    ${avatar}
+                    <div>
+                        <div class="post-author-name">${escapeHtml(post.author.name)}</div>
+                        <div class="post-meta">${escapeHtml(dateLabel)}${post.category ? ` · ${escapeHtml(post.category)}` : ''}</div>
+                    </div>
+                    ${post.pinned ? '<span class="pin">📌 Pinned</span>' : ''}
+                </div>
+                <h2>${escapeHtml(post.title)}</h2>
+                <p class="excerpt">${escapeHtml(post.excerpt)}</p>
+                <div class="post-stats">
+                    <span>👍 ${post.likes ?? 0}</span>
+                    <span>💬 ${post.commentsCount ?? 0}</span>
+                    ${post.attachments.length > 0 ? `<span>📎 ${post.attachments.length}</span>` : ''}
+                </div>
+            </a>
+        `;
+    });
+
+    const indexHtml = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1">
+            <title>${escapeHtml(groupName)} - Community</title>
+            <style>
+                :root {
+                    --panel: #ffffff;
+                    --panel-2: #f5f7fb;
+                    --text: #16181f;
+                    --muted: #5c6575;
+                    --accent: #3b82f6;
+                    --accent-2: #0f172a;
+                    --ring: rgba(20,22,29,0.08);
+                }
+                * { box-sizing: border-box; }
+                body {
+                    margin: 0;
+                    font-family: "Space Grotesk", "Manrope", "Segoe UI", sans-serif;
+                    background: #f6f6f8;
+                    color: var(--text);
+                    line-height: 1.6;
+                }
+                .page {
+                    max-width: 900px;
+                    margin: 48px auto 80px;
+                    padding: 0 24px;
+                }
+                .breadcrumb {
+                    font-size: 0.95rem;
+                    color: var(--muted);
+                    margin-bottom: 18px;
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 8px;
+                    align-items: center;
+                }
+                .breadcrumb a { color: var(--accent); text-decoration: none; font-weight: 600; }
+                .hero {
+                    background: linear-gradient(180deg, rgba(255,255,255,0.97) 0%, rgba(255,255,255,0.92) 100%);
+                    border-radius: 26px;
+                    padding: 32px;
+                    box-shadow:
+                        0 25px 45px rgba(15, 23, 42, 0.18),
+                        0 10px 20px rgba(15, 23, 42, 0.08);
+                }
+                .hero-title {
+                    font-size: clamp(2.1rem, 4vw, 3rem);
+                    margin: 0 0 8px 0;
+                    letter-spacing: -0.02em;
+                }
+                .hero-subtitle {
+                    color: var(--muted);
+                    margin: 0 0 18px 0;
+                    font-size: 1.05rem;
+                }
+                .hero-meta {
+                    display: flex;
+                    flex-wrap: wrap;
+                    gap: 12px;
+                }
+                .chip {
+                    padding: 10px 14px;
+                    border-radius: 999px;
+                    background: var(--panel-2);
+                    border: 1px solid var(--ring);
+                    color: var(--text);
+                    font-size: 0.95rem;
+                }
+                .chip strong { color: var(--accent); font-weight: 700; }
+                .posts {
+                    margin-top: 32px;
+                    display: grid;
+                    gap: 16px;
+                }
+                .post-card {
+                    background: var(--panel);
+                    border: 1px solid rgba(15, 23, 42, 0.05);
+                    border-radius: 18px;
+                    padding: 20px 22px;
+                    text-decoration: none;
+                    color: inherit;
+                    display: flex;
+                    flex-direction: column;
+                    gap: 8px;
+                    transition: transform 0.25s ease, box-shadow 0.25s ease;
+                    box-shadow: 0 20px 40px rgba(15, 23, 42, 0.1);
+                }
+                .post-card:hover {
+                    transform: translateY(-4px);
+                    box-shadow:
+                        0 30px 60px rgba(15, 23, 42, 0.18),
+                        0 12px 24px rgba(15, 23, 42, 0.1);
+                }
+                .post-card.is-pinned { border-color: rgba(59,130,246,0.45); }
+                .post-author { display: flex; align-items: center; gap: 12px; }
+                .avatar { width: 38px; height: 38px; border-radius: 50%; object-fit: cover; }
+                .avatar-fallback {
+                    display: grid;
+                    place-items: center;
+                    background: var(--panel-2);
+                    border: 1px solid var(--ring);
+                    font-weight: 700;
+                    color: var(--accent);
+                }
+                .post-author-name { font-weight: 700; }
+                .post-meta { color: var(--muted); font-size: 0.9rem; }
+                .pin {
+                    margin-left: auto;
+                    font-size: 0.8rem;
+                    font-weight: 700;
+                    padding: 2px 10px;
+                    border-radius: 999px;
+                    background: rgba(59,130,246,0.12);
+                    color: var(--accent);
+                }
+                .post-card h2 { margin: 4px 0 0 0; font-size: 1.2rem; }
+                .excerpt { margin: 0; color: var(--muted); }
+                .post-stats { display: flex; gap: 16px; font-size: 0.9rem; color: var(--accent-2); }
+            </style>
+        </head>
+        <body>
+            <div class="page">
+                <div class="breadcrumb">
+                    <a href="../index.html">${escapeHtml(groupName)}</a>
+                    <span>/</span>
+                    <span>Community</span>
+                </div>
+                <section class="hero">
+                    <h1 class="hero-title">${escapeHtml(groupName)}</h1>
+                    <p class="hero-subtitle">Archived community feed.</p>
+                    <div class="hero-meta">
+                        <div class="chip"><strong>${posts.length}</strong> posts</div>
+                        <div class="chip"><strong>${pinnedCount}</strong> pinned</div>
+                        <div class="chip"><strong>${attachmentsCount}</strong> attachments</div>
+                        <div class="chip">Updated: <strong>${new Date().toLocaleDateString()}</strong></div>
+                    </div>
+                </section>
+                <section class="posts">
+                    ${postCards.join('')}
+                </section>
+            </div>
+        </body>
+        </html>
+    `;
+
+    await writeAtomicHtml(path.join(communityDir, 'index.html'), indexHtml);
+
+    log('\nCommunity index regenerated successfully.');
+    log(`📊 Found ${posts.length} posts`);
+    log(`Saved to: ${path.join(communityDir, 'index.html')}`);
+}
+
+export { regenerateCommunityIndex };
@@ -1,5 +1,9 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { isCourseContentDir, isLibraryDir } from './library.js';
+import { renderProgressBar, renderProgressTools } from './progress.js';
+import { renderSearchWidget, SEARCH_INDEX_FILE } from './search-index.js';
+import { installThemeAssets, loadTheme, renderTemplate, resolveThemeDir, THEME_ASSETS_DIR_NAME } from './theme.js';
 
 type CourseManifest = {
     courseName: string;
@@ -11,21 +15,36 @@ type CourseManifest = {
         title: string;
         moduleDirName: string;
     }>;
+    themeDir?: string;
     updatedAt: string;
 };
 
-type GroupIndexCourse = {
+export type GroupIndexCourse = {
     dirName: string;
     courseName: string;
     groupName?: string;
     courseImagePath?: string;
     modulesCount: number;
     lessonsCount: number;
+    /** Ids from the lessons' `lesson.json`, for the progress bars. */
+    lessonIds: string[];
+    /** Total length of the videos whose duration was recorded. */
+    videoSeconds: number;
+    themeDir?: string;
+    updatedAt?: string;
+};
+
+type CommunityLink = {
+    dirName: string;
+    groupName?: string;
+    postsCount: number;
     updatedAt?: string;
 };
 
 type RegenerateOptions = {
     silent?: boolean;
+    /** Theme folder; defaults to the one recorded by the group's courses, then the default theme. */
+    themeDir?: string;
 };
 
 async function writeAtomicHtml(filePath: string, content: string) {
@@ -34,16 +53,31 @@ async function writeAtomicHtml(filePath: string, content: string) {
     await fs.move(tempPath, filePath, { overwrite: true });
 }
 
+async function readLessonSummary(manifestPath: string): Promise<{ lessonId: string | null; videoSeconds: number }> {
+    try {
+        const manifest = await fs.readJson(manifestPath);
+        const videos: Array<{ durationSeconds?: number }> = Array.isArray(manifest?.videos) ? manifest.videos : [];
+        return {
+            lessonId: typeof manifest?.lessonId === 'string' ? manifest.lessonId : null,
+            videoSeconds: videos.reduce((sum, video) => sum + (typeof video.durationSeconds === 'number' ? video.durationSeconds : 0), 0)
+        };
+    } catch {
+        return { lessonId: null, videoSeconds: 0 };
+    }
+}
+
 async function countLessons(coursePath: string) {
     let modulesCount = 0;
     let lessonsCount = 0;
+    const lessonIds: string[] = [];
+    let videoSeconds = 0;
 
     const moduleEntries = await fs.readdir(coursePath, { withFileTypes: true });
     const moduleDirs: typeof moduleEntries = [];
     const rootLessonDirs: typeof moduleEntries = [];
 
     for (const entry of moduleEntries) {
-        if (!entry.isDirectory() || entry.name.startsWith('.') || entry.name === 'assets') continue;
+        if (!entry.isDirectory() || !isCourseContentDir(entry.name)) continue;
         const entryPath = path.join(coursePath, entry.name);
         const indexPath = path.join(entryPath, 'index.html');
         const manifestPath = path.join(entryPath, 'lesson.json');
@@ -68,6 +102,9 @@ async function countLessons(coursePath: string) {
 
             if (await fs.pathExists(indexPath) || await fs.pathExists(manifestPath)) {
                 lessonsCount += 1;
+                const summary = await readLessonSummary(manifestPath);
+                if (summary.lessonId) lessonIds.push(summary.lessonId);
+                videoSeconds += summary.videoSeconds;
             }
         }
     }
@@ -78,10 +115,13 @@ async function countLessons(coursePath: string) {
         const manifestPath = path.join(lessonPath, 'lesson.json');
         if (await fs.pathExists(indexPath) || await fs.pathExists(manifestPath)) {
             lessonsCount += 1;
+            const summary = await readLessonSummary(manifestPath);
+            if (summary.lessonId) lessonIds.push(summary.lessonId);
+            videoSeconds += summary.videoSeconds;
         }
     }
 
-    return { modulesCount, lessonsCount };
+    return { modulesCount, lessonsCount, lessonIds, videoSeconds };
 }
 
 async function loadCourseInfo(coursePath: string, dirName: string): Promise<GroupIndexCourse | null> {
@@ -107,29 +147,84 @@ async function loadCourseInfo(coursePath: string, dirName: string): Promise<Grou
         courseImagePath,
         modulesCount: counts.modulesCount,
         lessonsCount: counts.lessonsCount,
+        lessonIds: counts.lessonIds,
+        videoSeconds: counts.videoSeconds,
+        themeDir: manifest?.themeDir,
         updatedAt: manifest?.updatedAt
     };
 }
 
-async function regenerateGroupIndex(
-    groupDir: string,
-    options: RegenerateOptions = {}
-) {
-    const log = options.silent ? () => {} : console.log;
-    const warn = options.silent ? () => {} : console.warn;
+async function loadCommunityLink(manifestPath: string, dirName: string): Promise<CommunityLink> {
+    try {
+        const manifest = await fs.readJson(manifestPath);
+        return {
+            dirName,
+            groupName: manifest?.groupName,
+            postsCount: manifest?.postsCount ?? 0,
+            updatedAt: manifest?.updatedAt
+        };
+    } catch {
+        return { dirName, postsCount: 0 };
+    }
+}
 
-    if (!fs.existsSync(groupDir)) {
-        log(`Group directory not found: ${groupDir}`);
-        return;
+/** Course card markup; `hrefPrefix` leads from the page's folder to the group folder. */
+async function renderCourseCard(groupDir: string, course: GroupIndexCourse, hrefPrefix: string) {
+    const coursePath = path.join(groupDir, course.dirName);
+    const courseIndexPath = `${hrefPrefix}${course.dirName}/index.html`;
+    let imageMarkup = '<div class="course-fallback">No course image</div>';
+
+    if (course.courseImagePath) {
+        const resolvedImagePath = path.join(coursePath, course.courseImagePath);
+        if (await fs.pathExists(resolvedImagePath)) {
+            const imageSrc = `${hrefPrefix}${course.dirName}/${course.courseImagePath}`;
+            imageMarkup = `<img src="${imageSrc}" alt="${course.courseName} cover">`;
+        }
     }
 
+    const updatedLabel = course.updatedAt
+        ? new Date(course.updatedAt).toLocaleDateString()
+        : 'Unknown';
+
+    return `
+        <a class="course-card" href="${courseIndexPath}">
+            <div class="course-image">${imageMarkup}</div>
+            <div class="course-body">
+                <h2>${course.courseName}</h2>
+                <p class="course-meta">Updated ${updatedLabel}</p>
+                <div class="course-stats">
+                    <span><strong>${course.modulesCount}</strong> modules</span>
+                    <span><strong>${course.lessonsCount}</strong> lessons</span>
+                </div>
+                ${renderProgressBar(course.lessonIds)}
+            </div>
+        </a>
+    `;
+}
+
+/**
+ * Reads the courses (newest first) and the community feed folder of a group folder. Shared with
+ * the library index, which lists every group.
+ */
+async function loadGroupCourses(groupDir: string): Promise<{
+    groupName: string;
+    courses: GroupIndexCourse[];
+    community: CommunityLink | null;
+}> {
     const entries = await fs.readdir(groupDir, { withFileTypes: true });
     const courseDirs = entries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
 
     const courses: GroupIndexCourse[] = [];
     let resolvedGroupName: string | null = null;
+    let community: CommunityLink | null = null;
 
     for (const courseDir of courseDirs) {
+        const communityManifestPath = path.join(groupDir, courseDir.name, '.community.json');
+        if (await fs.pathExists(communityManifestPath)) {
+            community = await loadCommunityLink(communityManifestPath, courseDir.name);
+            continue;
+        }
+
         const coursePath = path.join(groupDir, courseDir.name);
         const courseInfo = await loadCourseInfo(coursePath, courseDir.name);
         if (!courseInfo) continue;
@@ -140,12 +235,7 @@ async function regenerateGroupIndex(
         }
     }
 
-    if (courses.length === 0) {
-        warn('No courses found to build group index.');
-        return;
-    }
-
-    const groupName = resolvedGroupName || path.basename(groupDir);
+    const groupName = resolvedGroupName || community?.groupName || path.basename(groupDir);
 
     courses.sort((a, b) => {
         if (a.updatedAt && b.updatedAt) {
@@ -154,193 +244,58 @@ async function regenerateGroupIndex(
         return a.courseName.localeCompare(b.courseName);
     });
 
+    return { groupName, courses, community };
+}
+
+async function regenerateGroupIndex(
+    groupDir: string,
+    options: RegenerateOptions = {}
+) {
+    const log = options.silent ? () => {} : console.log;
+    const warn = options.silent ? () => {} : console.warn;
+
+    if (!fs.existsSync(groupDir)) {
+        log(`Group directory not found: ${groupDir}`);
+        return;
+    }
+
+    const { groupName, courses, community } = await loadGroupCourses(groupDir);
+    if (courses.length === 0 && !community) {
+        warn('No courses found to build group index.');
+        return;
+    }
+
     const totalLessons = courses.reduce((acc, course) => acc + course.lessonsCount, 0);
+    const theme = await loadTheme(resolveThemeDir(options.themeDir, courses.find(course => course.themeDir)?.themeDir));
+    await installThemeAssets(theme, groupDir);
 
-    const courseCards = await Promise.all(
-        courses.map(async (course) => {
-            const coursePath = path.join(groupDir, course.dirName);
-            const courseIndexPath = `${course.dirName}/index.html`;
-            let imageMarkup = '<div class="course-fallback">No course image</div>';
-
-            if (course.courseImagePath) {
-                const resolvedImagePath = path.join(coursePath, course.courseImagePath);
-                if (await fs.pathExists(resolvedImagePath)) {
-                    const imageSrc = `${course.dirName}/${course.courseImagePath}`;
-                    imageMarkup = `<img src="${imageSrc}" alt="${course.courseName} cover">`;
-                }
-            }
+    const courseCards = await Promise.all(courses.map(course => renderCourseCard(groupDir, course, '')));
 
-            const updatedLabel = course.updatedAt
-                ? new Date(course.updatedAt).toLocaleDateString()
-                : 'Unknown';
-
-            return `
-                <a class="course-card" href="${courseIndexPath}">
-                    <div class="course-image">${imageMarkup}</div>
-                    <div class="course-body">
-                        <h2>${course.courseName}</h2>
-                        <p class="course-meta">Updated ${updatedLabel}</p>
-                        <div class="course-stats">
-                            <span><strong>${course.modulesCount}</strong> modules</span>
-                            <span><strong>${course.lessonsCount}</strong> lessons</span>
-                        </div>
-                    </div>
-                </a>
-            `;
-        })
-    );
-
-    const indexHtml = `
-        <!DOCTYPE html>
-        <html>
-        <head>
-            <meta charset="UTF-8">
-            <meta name="viewport" content="width=device-width, initial-scale=1">
-            <title>${groupName} - Courses</title>
-            <style>
-                :root {
-                    --bg: #f8f6f1;
-                    --panel: #ffffff;
-                    --panel-2: #f5f7fb;
-                    --text: #16181f;
-                    --muted: #5c6575;
-                    --accent: #3b82f6;
-                    --accent-2: #0f172a;
-                    --ring: rgba(20,22,29,0.08);
-                    --shadow: 0 18px 36px rgba(15, 23, 42, 0.12);
-                }
-                * { box-sizing: border-box; }
-                body {
-                    margin: 0;
-                    font-family: "Space Grotesk", "Manrope", "Segoe UI", sans-serif;
-                    background: #f6f6f8;
-                    color: var(--text);
-                    line-height: 1.6;
-                }
-                .page {
-                    max-width: 1100px;
-                    margin: 48px auto 80px;
-                    padding: 0 24px;
-                }
-                .hero {
-                    background: linear-gradient(180deg, rgba(255,255,255,0.97) 0%, rgba(255,255,255,0.92) 100%);
-                    border-radius: 26px;
-                    padding: 32px;
-                    box-shadow:
-                        0 25px 45px rgba(15, 23, 42, 0.18),
-                        0 10px 20px rgba(15, 23, 42, 0.08);
-                }
-                .hero-title {
-                    font-size: clamp(2.3rem, 4vw, 3.2rem);
-                    margin: 0 0 8px 0;
-                    letter-spacing: -0.02em;
-                }
-                .hero-subtitle {
-                    color: var(--muted);
-                    margin: 0 0 18px 0;
-                    font-size: 1.05rem;
-                }
-                .hero-meta {
-                    display: flex;
-                    flex-wrap: wrap;
-                    gap: 12px;
-                }
-                .chip {
-                    padding: 10px 14px;
-                    border-radius: 999px;
-                    background: var(--panel-2);
-                    border: 1px solid var(--ring);
-                    color: var(--text);
-                    font-size: 0.95rem;
-                }
-                .chip strong { color: var(--accent); font-weight: 700; }
-                .courses {
-                    margin-top: 32px;
-                    display: grid;
-                    grid-template-columns: repeat(auto-fit, minmax(280px, 1fr));
-                    gap: 18px;
-                }
-                .course-card {
-                    background: var(--panel);
-                    border: 1px solid rgba(15, 23, 42, 0.05);
-                    border-radius: 18px;
-                    overflow: hidden;
-                    text-decoration: none;
-                    color: inherit;
-                    display: flex;
-                    flex-direction: column;
-                    min-height: 100%;
-                    transition: transform 0.25s ease, box-shadow 0.25s ease;
-                    box-shadow: 0 20px 40px rgba(15, 23, 42, 0.12);
-                }
-                .course-card:hover {
-                    transform: translateY(-6px);
-                    box-shadow:
-                        0 30px 60px rgba(15, 23, 42, 0.25),
-                        0 14px 30px rgba(15, 23, 42, 0.15);
-                }
-                .course-image {
-                    aspect-ratio: 16 / 9;
-                    min-height: 0;
-                    background: #f0f2f7;
-                    border-bottom: 1px solid var(--ring);
-                    overflow: hidden;
-                }
-                .course-image img {
-                    width: 100%;
-                    height: 100%;
-                    object-fit: cover;
-                    display: block;
-                }
-                .course-fallback {
-                    height: 100%;
-                    display: grid;
-                    place-items: center;
-                    color: var(--muted);
-                    font-size: 0.95rem;
-                }
-                .course-body {
-                    padding: 18px 18px 20px;
-                    display: flex;
-                    flex-direction: column;
-                    gap: 10px;
-                }
-                .course-body h2 {
-                    margin: 0;
-                    font-size: 1.2rem;
-                }
-                .course-meta {
-                    margin: 0;
-                    color: var(--muted);
-                    font-size: 0.95rem;
-                }
-                .course-stats {
-                    display: flex;
-                    flex-wrap: wrap;
-                    gap: 12px;
-                    font-size: 0.95rem;
-                }
-                .course-stats strong { color: var(--accent-2); }
-            </style>
-        </head>
-        <body>
-            <div class="page">
-                <section class="hero">
-                    <h1 class="hero-title">${groupName}</h1>
-                    <p class="hero-subtitle">All downloaded courses for this community.</p>
-                    <div class="hero-meta">
-                        <div class="chip"><strong>${courses.length}</strong> courses</div>
-                        <div class="chip"><strong>${totalLessons}</strong> lessons</div>
-                        <div class="chip">Updated: <strong>${new Date().toLocaleDateString()}</strong></div>
-                    </div>
-                </section>
-                <section class="courses">
-                    ${courseCards.join('')}
-                </section>
-            </div>
-        </body>
-        </html>
-    `;
+    const searchSources: Array<{ src: string; base: string }> = [];
+    for (const course of courses) {
+        if (await fs.pathExists(path.join(groupDir, course.dirName, SEARCH_INDEX_FILE))) {
+            searchSources.push({ src: `${course.dirName}/${SEARCH_INDEX_FILE}`, base: `${course.dirName}/` });
+        }
+    }
+
+    const indexHtml = renderTemplate(theme.templates['group-index'], {
+        groupName,
+        breadcrumb: isLibraryDir(path.dirname(groupDir)) ? `<div class="breadcrumb">
+            <a href="../index.html">Library</a>
+            <span>/</span>
+            <span>${groupName}</span>
+        </div>` : '',
+        coursesCount: courses.length,
+        lessonsCount: totalLessons,
+        updatedDate: new Date().toLocaleDateString(),
+        communityLink: community
+            ? `<a class="chip chip-link" href="${community.dirName}/index.html">💬 Community feed: <strong>${community.postsCount}</strong> posts</a>`
+            : '',
+        courses: courseCards.join(''),
+        search: renderSearchWidget(searchSources, { showCourse: true }),
+        progress: renderProgressTools(courses.flatMap(course => course.lessonIds)),
+        themeDir: THEME_ASSETS_DIR_NAME
+    });
 
     await writeAtomicHtml(path.join(groupDir, 'index.html'), indexHtml);
 
@@ -348,4 +303,4 @@ async function regenerateGroupIndex(
     log(`Saved to: ${path.join(groupDir, 'index.html')}`);
 }
 
-export { regenerateGroupIndex };
+export { loadGroupCourses, regenerateGroupIndex, renderCourseCard };
@@ -1,5 +1,10 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { writeCourseNav } from './course-nav.js';
+import { isCourseContentDir, isLibraryDir } from './library.js';
+import { renderLessonToggle, renderProgressTools } from './progress.js';
+import { renderSearchWidget, SEARCH_INDEX_FILE, writeCourseSearchIndex } from './search-index.js';
+import { installThemeAssets, loadTheme, renderTemplate, resolveThemeDir, THEME_ASSETS_DIR_NAME } from './theme.js';
 
 type CourseManifest = {
     courseName: string;
@@ -11,6 +16,12 @@ type CourseManifest = {
         title: string;
         moduleDirName: string;
     }>;
+    themeDir?: string;
+    skoolProgress?: {
+        completedLessons: number;
+        totalLessons: number;
+        percent?: number;
+    };
     updatedAt: string;
 };
 
@@ -23,8 +34,9 @@ type LessonManifest = {
     moduleDirName: string;
     lessonDirName: string;
     relativePath: string;
-    hasVideo: boolean;
+    videos?: Array<{ file: string; embedded: boolean }>;
     resourcesCount: number;
+    completed?: boolean;
     updatedAt: string;
 };
 
@@ -40,6 +52,10 @@ async function writeAtomicHtml(filePath: string, content: string) {
  */
 type RegenerateOptions = {
     silent?: boolean;
+    /** Theme folder; defaults to the one recorded in `.course.json`, then the default theme. */
+    themeDir?: string;
+    /** Rebuild `search-index.js` (default). Skipped while lessons are still being downloaded. */
+    searchIndex?: boolean;
 };
 
 async function regenerateIndex(
@@ -72,8 +88,7 @@ async function regenerateIndex(
     const rootLessonDirs: typeof entries = [];
 
     for (const entry of entries) {
-        if (!entry.isDirectory()) continue;
-        if (entry.name === 'assets') continue;
+        if (!entry.isDirectory() || !isCourseContentDir(entry.name)) continue;
         const entryPath = path.join(downloadsDir, entry.name);
         const indexPath = path.join(entryPath, 'index.html');
         const manifestPath = path.join(entryPath, 'lesson.json');
@@ -125,6 +140,8 @@ async function regenerateIndex(
                 let lessonIndex = parseInt(lessonDir.name.split('-')[0]) || 999;
                 let moduleTitleOverride: string | null = null;
                 let moduleIndexOverride: number | null = null;
+                let lessonId: string | null = null;
+                let completed = false;
 
                 if (fs.existsSync(manifestPath)) {
                     try {
@@ -132,6 +149,8 @@ async function regenerateIndex(
                         lessonTitle = manifest.title || lessonTitle;
                         relativePath = manifest.relativePath || relativePath;
                         lessonIndex = manifest.lessonIndex ?? lessonIndex;
+                        lessonId = manifest.lessonId || null;
+                        completed = manifest.completed === true;
                         moduleTitleOverride = manifest.moduleTitle || null;
                         moduleIndexOverride = manifest.moduleIndex ?? null;
                     } catch (err) {
@@ -140,6 +159,8 @@ async function regenerateIndex(
                 }
 
                 lessons.push({
+                    lessonId,
+                    completed,
                     title: lessonTitle,
                     path: relativePath,
                     index: lessonIndex,
@@ -182,6 +203,8 @@ async function regenerateIndex(
                 let lessonIndex = parseInt(lessonDir.name.split('-')[0]) || 999;
                 let moduleTitleOverride: string | null = null;
                 let moduleIndexOverride: number | null = null;
+                let lessonId: string | null = null;
+                let completed = false;
 
                 if (fs.existsSync(manifestPath)) {
                     try {
@@ -189,6 +212,8 @@ async function regenerateIndex(
                         lessonTitle = manifest.title || lessonTitle;
                         relativePath = manifest.relativePath || relativePath;
                         lessonIndex = manifest.lessonIndex ?? lessonIndex;
+                        lessonId = manifest.lessonId || null;
+                        completed = manifest.completed === true;
                         moduleTitleOverride = manifest.moduleTitle || null;
                         moduleIndexOverride = manifest.moduleIndex ?? null;
                     } catch (err) {
@@ -197,6 +222,8 @@ async function regenerateIndex(
                 }
 
                 lessons.push({
+                    lessonId,
+                    completed,
                     title: lessonTitle,
                     path: relativePath,
                     index: lessonIndex,
@@ -239,231 +266,64 @@ async function regenerateIndex(
         : null;
     const hasCourseImage = resolvedCourseImagePath ? await fs.pathExists(resolvedCourseImagePath) : false;
 
+    const lessonsCount = courseInfo.reduce((acc, m) => acc + m.lessons.length, 0);
+    const lessonIds: string[] = courseInfo.flatMap(m => m.lessons.map((l: any) => l.lessonId).filter(Boolean));
+    const theme = await loadTheme(resolveThemeDir(options.themeDir, courseManifest?.themeDir));
+    await installThemeAssets(theme, downloadsDir);
+
+    await writeCourseNav(
+        downloadsDir,
+        courseName,
+        courseInfo.map(m => ({ title: m.title, lessons: m.lessons.map((l: any) => ({ title: l.title, path: l.path })) }))
+    );
+
+    if (options.searchIndex !== false) {
+        await writeCourseSearchIndex(
+            downloadsDir,
+            { courseName, groupName },
+            courseInfo.flatMap(m => m.lessons.map((l: any) => ({ title: l.title, moduleTitle: m.title, path: l.path })))
+        );
+    }
+
     // Generate the index HTML
-    const indexHtml = `
-            <!DOCTYPE html>
-            <html>
-            <head>
-                <meta charset="UTF-8">
-                <meta name="viewport" content="width=device-width, initial-scale=1">
-                <title>${courseName}${groupName ? ` (${groupName})` : ''} - Backup</title>
-                <style>
-                    :root {
-                        --bg: #f6f3ee;
-                        --panel: #ffffff;
-                        --panel-2: #f6f7fb;
-                        --text: #14161d;
-                        --muted: #596070;
-                        --accent: #3b82f6;
-                        --accent-2: #0f172a;
-                        --ring: rgba(20,22,29,0.08);
-                        --shadow: 0 20px 40px rgba(15, 23, 42, 0.12);
-                    }
-                    * { box-sizing: border-box; }
-                    body {
-                        margin: 0;
-                        font-family: "Space Grotesk", "Manrope", "Segoe UI", sans-serif;
-                        background: linear-gradient(145deg, #fefefe 0%, #f3f6fb 100%);
-                        color: var(--text);
-                        line-height: 1.6;
-                    }
-                    .page {
-                        max-width: 1100px;
-                        margin: 48px auto 80px;
-                        padding: 0 24px;
-                    }
-                    .hero {
-                        display: grid;
-                        grid-template-columns: 1fr;
-                        gap: 28px;
-                        align-items: stretch;
-                        background: var(--panel);
-                        border-radius: 28px;
-                        padding: 32px;
-                        box-shadow:
-                            0 20px 45px rgba(15, 23, 42, 0.18),
-                            0 10px 20px rgba(15, 23, 42, 0.08);
-                    }
-                    .breadcrumb {
-                        font-size: 0.95rem;
-                        color: var(--muted);
-                        margin-bottom: 18px;
-                        display: flex;
-                        flex-wrap: wrap;
-                        gap: 8px;
-                        align-items: center;
-                    }
-                    .breadcrumb a { color: var(--accent); text-decoration: none; font-weight: 600; }
-                    .breadcrumb span { color: var(--muted); }
-                    .hero-copy {
-                        display: flex;
-                        flex-direction: column;
-                        justify-content: center;
-                        gap: 6px;
-                    }
-                    .hero-title {
-                        font-size: clamp(2.2rem, 4vw, 3.2rem);
-                        margin: 0 0 10px 0;
-                        letter-spacing: -0.02em;
-                    }
-                    .hero-subtitle {
-                        color: var(--muted);
-                        margin: 0 0 22px 0;
-                        font-size: 1.05rem;
-                    }
-                    .hero-meta {
-                        display: flex;
-                        flex-wrap: wrap;
-                        gap: 12px;
-                    }
-                    .chip {
-                        padding: 10px 14px;
-                        border-radius: 999px;
-                        background: var(--panel-2);
-                        border: 1px solid var(--ring);
-                        color: var(--text);
-                        font-size: 0.95rem;
-                    }
-                    .chip strong { color: var(--accent); font-weight: 700; }
-                    .hero-image {
-                        position: relative;
-                        border-radius: 18px;
-                        overflow: hidden;
-                        background: #f0f2f7;
-                        height: 100%;
-                        border: 1px solid var(--ring);
-                        box-shadow: 0 16px 28px rgba(15, 23, 42, 0.14);
-                    }
-                    .hero-image img {
-                        width: 100%;
-                        height: 100%;
-                        object-fit: cover;
-                        background: #f0f2f7;
-                        display: block;
-                    }
-                    .hero-image .fallback {
-                        height: 100%;
-                        display: grid;
-                        place-items: center;
-                        color: var(--muted);
-                        font-size: 0.95rem;
-                    }
-                    .content {
-                        margin-top: 36px;
-                        display: grid;
-                        gap: 18px;
-                    }
-                    .module {
-                        background: var(--panel);
-                        border-radius: 20px;
-                        padding: 22px;
-                        transition: transform 0.25s ease, box-shadow 0.25s ease;
-                        box-shadow: 0 20px 40px rgba(15, 23, 42, 0.1);
-                    }
-                    .module:hover {
-                        transform: translateY(-4px);
-                        box-shadow:
-                            0 30px 60px rgba(15, 23, 42, 0.18),
-                            0 12px 24px rgba(15, 23, 42, 0.1);
-                    }
-                    .module-title {
-                        margin: 0 0 12px 0;
-                        font-size: 1.25rem;
-                        display: flex;
-                        align-items: center;
-                        gap: 10px;
-                    }
-                    .module-title span {
-                        color: var(--accent-2);
-                        font-weight: 700;
-                        font-size: 0.95rem;
-                        padding: 4px 10px;
-                        border-radius: 999px;
-                        background: rgba(37,99,235,0.12);
-                        border: 1px solid rgba(37,99,235,0.25);
-                    }
-                    .lesson-list {
-                        display: grid;
-                        grid-template-columns: repeat(auto-fit, minmax(260px, 1fr));
-                        gap: 12px 16px;
-                        align-items: stretch;
-                        grid-auto-flow: row dense;
-                        padding: 0;
-                        margin: 0;
-                        list-style: none;
-                    }
-                    .lesson a {
-                        display: block;
-                        padding: 12px 14px;
-                        border-radius: 14px;
-                        background: var(--panel-2);
-                        border: 1px solid rgba(255,255,255,0.2);
-                        color: var(--text);
-                        text-decoration: none;
-                        font-size: 0.98rem;
-                        min-height: 46px;
-                        height: 100%;
-                        transition: border-color 0.25s ease, transform 0.25s ease;
-                        box-shadow: inset 0 0 0 1px rgba(255,255,255,0.15);
-                    }
-                    .lesson a:hover {
-                        border-color: rgba(59,130,246,0.6);
-                        transform: translateY(-2px);
-                    }
-                    @media (min-width: 900px) {
-                        .hero { grid-template-columns: 1.15fr 0.85fr; }
-                    }
-                    @media (max-width: 640px) {
-                        .hero-image { min-height: 200px; }
-                    }
-                </style>
-            </head>
-            <body>
-                <div class="page">
-                    ${groupName ? `
-                        <div class="breadcrumb">
-                            <a href="../index.html">${groupName}</a>
-                            <span>/</span>
-                            <span>${courseName}</span>
-                        </div>
-                    ` : ''}
-                    <section class="hero">
-                        <div class="hero-copy">
-                            <h1 class="hero-title">${courseName}</h1>
-                            <p class="hero-subtitle">${groupName ? `Community: ${groupName}` : 'Course Archive'}</p>
-                            <div class="hero-meta">
-                                <div class="chip"><strong>${courseInfo.reduce((acc, m) => acc + m.lessons.length, 0)}</strong> lessons</div>
-                                <div class="chip"><strong>${courseInfo.length}</strong> modules</div>
-                                <div class="chip">Updated: <strong>${new Date().toLocaleDateString()}</strong></div>
-                            </div>
-                        </div>
-                        <div class="hero-image">
-                            ${hasCourseImage && courseImagePath
-        ? `<img src="${courseImagePath}" alt="${courseName} cover">`
-        : `<div class="fallback">No course image available</div>`}
-                        </div>
-                    </section>
-
-                    <section class="content">
-                        ${courseInfo.map(m => `
-                            <div class="module">
-                                <h2 class="module-title"><span>Module ${m.index}</span>${m.title}</h2>
-                                <ul class="lesson-list">
-                                    ${m.lessons.map((l: any) => `<li class="lesson"><a href="${l.path}">${l.title}</a></li>`).join('')}
-                                </ul>
-                            </div>
-                        `).join('')}
-                    </section>
-                </div>
-            </body>
-            </html>
-        `;
+    const indexHtml = renderTemplate(theme.templates['course-index'], {
+        pageTitle: `${courseName}${groupName ? ` (${groupName})` : ''} - Backup`,
+        courseName,
+        groupName,
+        subtitle: groupName ? `Community: ${groupName}` : 'Course Archive',
+        breadcrumb: groupName ? `<div class="breadcrumb">
+            ${isLibraryDir(path.dirname(path.dirname(downloadsDir))) ? '<a href="../../index.html">Library</a><span>/</span>' : ''}
+            <a href="../index.html">${groupName}</a>
+            <span>/</span>
+            <span>${courseName}</span>
+        </div>` : '',
+        lessonsCount,
+        modulesCount: courseInfo.length,
+        updatedDate: new Date().toLocaleDateString(),
+        courseImage: hasCourseImage && courseImagePath
+            ? `<img src="${courseImagePath}" alt="${courseName} cover">`
+            : '<div class="fallback">No course image available</div>',
+        modules: courseInfo.map(m => `
+            <div class="module">
+                <h2 class="module-title"><span>Module ${m.index}</span>${m.title}</h2>
+                <ul class="lesson-list">
+                    ${m.lessons.map((l: any) => `<li class="lesson${l.completed ? ' lesson-skool-done' : ''}">${l.lessonId ? renderLessonToggle(l.lessonId, l.completed) : ''}<a href="${l.path}">${l.title}</a></li>`).join('')}
+                </ul>
+            </div>
+        `).join(''),
+        search: renderSearchWidget([{ src: SEARCH_INDEX_FILE, base: '' }]),
+        progress: renderProgressTools(lessonIds),
+        skoolProgress: courseManifest?.skoolProgress
+            ? `<div class="chip">Skool: <strong>${courseManifest.skoolProgress.completedLessons}/${courseManifest.skoolProgress.totalLessons}</strong> completed</div>`
+            : '',
+        themeDir: THEME_ASSETS_DIR_NAME
+    });
 
     // Write the index file
     await writeAtomicHtml(path.join(downloadsDir, 'index.html'), indexHtml);
 
     log('\n✅ Index regenerated successfully!');
-    log(`📊 Found ${courseInfo.length} modules with ${courseInfo.reduce((acc, m) => acc + m.lessons.length, 0)} lessons total`);
+    log(`📊 Found ${courseInfo.length} modules with ${lessonsCount} lessons total`);
     log(`📁 Saved to: ${path.join(downloadsDir, 'index.html')}`);
 }
 
@@ -0,0 +1,194 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { LIBRARY_MANIFEST_FILE, readGroupManifest, type GroupManifest } from './library.js';
+import { renderProgressTools } from './progress.js';
+import { regenerateCommunityIndex } from './regenerate-community-index.js';
+import { loadGroupCourses, regenerateGroupIndex, renderCourseCard, type GroupIndexCourse } from './regenerate-group-index.js';
+import { regenerateIndex } from './regenerate-index.js';
+import { renderSearchWidget, SEARCH_INDEX_FILE } from './search-index.js';
+import { installThemeAssets, loadTheme, renderTemplate, resolveThemeDir, THEME_ASSETS_DIR_NAME } from './theme.js';
+
+type LibraryGroup = {
+    dirName: string;
+    groupName: string;
+    manifest: GroupManifest | null;
+    courses: GroupIndexCourse[];
+};
+
+type RegenerateOptions = {
+    silent?: boolean;
+    /** Theme folder; defaults to the one recorded by the first course, then the default theme. */
+    themeDir?: string;
+};
+
+function formatHours(seconds: number) {
+    const hours = seconds / 3600;
+    return hours >= 10 ? Math.round(hours).toString() : hours.toFixed(1);
+}
+
+/** Group logo, else its cover, else the cover of its first course that has one. */
+async function groupImage(groupDir: string, group: LibraryGroup): Promise<string | null> {
+    for (const imagePath of [group.manifest?.logoPath, group.manifest?.coverPath]) {
+        if (imagePath && await fs.pathExists(path.join(groupDir, imagePath))) {
+            return `${group.dirName}/${imagePath}`;
+        }
+    }
+    for (const course of group.courses) {
+        if (course.courseImagePath && await fs.pathExists(path.join(groupDir, course.dirName, course.courseImagePath))) {
+            return `${group.dirName}/${course.dirName}/${course.courseImagePath}`;
+        }
+    }
+    return null;
+}
+
+async function writeAtomicHtml(filePath: string, content: string) {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+/**
+ * Writes `index.html` at the root of the downloads folder: every group with its logo, totals
+ * and course cards, and one search box over all course search indexes.
+ */
+async function regenerateLibraryIndex(
+    libraryDir: string = path.join(process.cwd(), 'downloads'),
+    options: RegenerateOptions = {}
+) {
+    const log = options.silent ? () => {} : console.log;
+    const warn = options.silent ? () => {} : console.warn;
+
+    if (!fs.existsSync(libraryDir)) {
+        log(`Downloads directory not found: ${libraryDir}`);
+        return;
+    }
+
+    const entries = await fs.readdir(libraryDir, { withFileTypes: true });
+    const groups: LibraryGroup[] = [];
+    for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+        const groupDir = path.join(libraryDir, entry.name);
+        const { groupName, courses } = await loadGroupCourses(groupDir);
+        if (courses.length === 0) continue;
+        const manifest = await readGroupManifest(groupDir);
+        groups.push({ dirName: entry.name, groupName: manifest?.groupName || groupName, manifest, courses });
+    }
+
+    if (groups.length === 0) {
+        warn('No courses found to build library index.');
+        return;
+    }
+
+    groups.sort((a, b) => a.groupName.localeCompare(b.groupName));
+
+    const allCourses = groups.flatMap(group => group.courses);
+    const theme = await loadTheme(resolveThemeDir(options.themeDir, allCourses.find(course => course.themeDir)?.themeDir));
+    await installThemeAssets(theme, libraryDir);
+
+    const groupSections: string[] = [];
+    const searchSources: Array<{ src: string; base: string }> = [];
+    for (const group of groups) {
+        const groupDir = path.join(libraryDir, group.dirName);
+        const cards = await Promise.all(group.courses.map(course => renderCourseCard(groupDir, course, `${group.dirName}/`)));
+        const groupLink = await fs.pathExists(path.join(groupDir, 'index.html'))
+            ? `<a href="${group.dirName}/index.html">${group.groupName}</a>`
+            : group.groupName;
+        const image = await groupImage(groupDir, group);
+        const lessonsCount = group.courses.reduce((acc, course) => acc + course.lessonsCount, 0);
+        const videoSeconds = group.courses.reduce((acc, course) => acc + course.videoSeconds, 0);
+        const updatedAt = group.courses
+            .map(course => course.updatedAt)
+            .filter((value): value is string => Boolean(value))
+            .sort()
+            .pop();
+
+        groupSections.push(`
+        <section class="group">
+            <div class="group-header">
+                ${image ? `<img class="group-logo" src="${image}" alt="${group.groupName}">` : `<div class="group-logo group-logo-fallback">${group.groupName.charAt(0).toUpperCase()}</div>`}
+                <div>
+                    <h2 class="group-title">${groupLink}</h2>
+                    <div class="group-stats">
+                        <span><strong>${group.courses.length}</strong> courses</span>
+                        <span><strong>${lessonsCount}</strong> lessons</span>
+                        ${videoSeconds > 0 ? `<span><strong>${formatHours(videoSeconds)}</strong> hours of video</span>` : ''}
+                        ${updatedAt ? `<span>Updated <strong>${new Date(updatedAt).toLocaleDateString()}</strong></span>` : ''}
+                    </div>
+                </div>
+            </div>
+            <div class="courses">${cards.join('')}</div>
+        </section>`);
+
+        for (const course of group.courses) {
+            if (await fs.pathExists(path.join(groupDir, course.dirName, SEARCH_INDEX_FILE))) {
+                searchSources.push({
+                    src: `${group.dirName}/${course.dirName}/${SEARCH_INDEX_FILE}`,
+                    base: `${group.dirName}/${course.dirName}/`
+                });
+            }
+        }
+    }
+
+    const indexHtml = renderTemplate(theme.templates['library-index'], {
+        title: 'Course Library',
+        groupsCount: groups.length,
+        coursesCount: allCourses.length,
+        lessonsCount: allCourses.reduce((acc, course) => acc + course.lessonsCount, 0),
+        videoHours: formatHours(allCourses.reduce((acc, course) => acc + course.videoSeconds, 0)),
+        updatedDate: new Date().toLocaleDateString(),
+        search: renderSearchWidget(searchSources, { showCourse: true }),
+        progress: renderProgressTools(allCourses.flatMap(course => course.lessonIds)),
+        groups: groupSections.join(''),
+        themeDir: THEME_ASSETS_DIR_NAME
+    });
+
+    await writeAtomicHtml(path.join(libraryDir, 'index.html'), indexHtml);
+    await fs.writeJson(path.join(libraryDir, LIBRARY_MANIFEST_FILE), {
+        groupsCount: groups.length,
+        coursesCount: allCourses.length,
+        updatedAt: new Date().toISOString()
+    }, { spaces: 2 });
+
+    log('\nLibrary index regenerated successfully.');
+    log(`Saved to: ${path.join(libraryDir, 'index.html')}`);
+}
+
+/**
+ * Rebuilds every index below the downloads folder: each course (and community feed), each
+ * group, then the library page. Returns how many courses and groups were regenerated.
+ */
+async function regenerateLibrary(libraryDir: string = path.join(process.cwd(), 'downloads')) {
+    const summary = { courses: 0, groups: 0 };
+    if (!await fs.pathExists(libraryDir)) return summary;
+
+    const groupEntries = await fs.readdir(libraryDir, { withFileTypes: true });
+    const groupDirs = groupEntries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
+
+    for (const groupDir of groupDirs) {
+        const groupPath = path.join(libraryDir, groupDir.name);
+        const courseEntries = await fs.readdir(groupPath, { withFileTypes: true });
+        const courseDirs = courseEntries.filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
+
+        if (courseDirs.length === 0) continue;
+
+        for (const courseDir of courseDirs) {
+            const coursePath = path.join(groupPath, courseDir.name);
+            if (await fs.pathExists(path.join(coursePath, '.community.json'))) {
+                await regenerateCommunityIndex(coursePath, { silent: true });
+                continue;
+            }
+            await regenerateIndex(coursePath, { silent: true });
+            summary.courses += 1;
+        }
+
+        await regenerateGroupIndex(groupPath, { silent: true });
+        summary.groups += 1;
+    }
+
+    if (summary.groups > 0) {
+        await regenerateLibraryIndex(libraryDir, { silent: true });
+    }
+    return summary;
+}
+
+export { regenerateLibrary, regenerateLibraryIndex };
@@ -0,0 +1,198 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { extractElementInner, extractResources } from './course-reader.js';
+import { localImageFileName } from './downloader.js';
+import { loadLocalLessons, type LocalLesson } from './index.js';
+import { countComments, renderComments, renderLessonPage, type LessonPageResource } from './lesson-page.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { isLibraryDir } from './library.js';
+import { LESSON_RAW_FILE, readRawFile, type RawLessonFile } from './raw-data.js';
+import { regenerateGroupIndex } from './regenerate-group-index.js';
+import { regenerateIndex } from './regenerate-index.js';
+import { regenerateLibraryIndex } from './regenerate-library-index.js';
+import type { LessonComment } from './scraper.js';
+import { installThemeAssets, loadTheme, resolveThemeDir, type Theme } from './theme.js';
+import { renderTipTap, type TipTapNode } from './tiptap.js';
+import { findEmbeddedVideos, renderVideoTag, replaceEmbeddedVideo } from './videos.js';
+
+type CourseManifest = {
+    courseName: string;
+    groupName: string;
+    themeDir?: string;
+};
+
+export type RerenderOptions = {
+    /** Theme folder (`default` for the bundled theme). Defaults to the course's recorded theme. */
+    themeDir?: string;
+    logger?: Logger;
+};
+
+export type RerenderSummary = {
+    rendered: number;
+    failed: number;
+    /**
+     * Lessons with neither `content.json` nor `lesson.raw.json`, whose body was copied from the
+     * existing page. Content renderer fixes only reach them after a fresh download.
+     */
+    fromSavedPage: number;
+};
+
+async function writeAtomicHtml(filePath: string, content: string) {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, content);
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+/**
+ * Offline counterpart of `Downloader.localizeImages`: points remote images at the copies saved
+ * in `assets/` and leaves images that were never downloaded as remote links.
+ */
+async function relinkImages(html: string, lessonDir: string): Promise<string> {
+    const assets = new Set(await fs.readdir(path.join(lessonDir, 'assets')).catch(() => [] as string[]));
+    return html.replace(/(<img[^>]+src=")([^">]+)"/g, (match, start: string, src: string) => {
+        const url = src.replace(/&amp;/g, '&');
+        if (!url.startsWith('http')) return match;
+        try {
+            const file = localImageFileName(url);
+            return assets.has(file) ? `${start}assets/${file}"` : match;
+        } catch (err) {
+            return match;
+        }
+    });
+}
+
+async function readLessonBody(local: LocalLesson, pageHtml: string | null): Promise<{ html: string; fromSavedPage: boolean }> {
+    const contentPath = path.join(local.lessonDir, 'content.json');
+    if (await fs.pathExists(contentPath)) {
+        const nodes: TipTapNode[] = await fs.readJson(contentPath);
+        return { html: renderTipTap(nodes), fromSavedPage: false };
+    }
+
+    const raw = await readRawFile<RawLessonFile>(path.join(local.lessonDir, LESSON_RAW_FILE));
+    if (raw?.lesson.contentHtml !== undefined) {
+        return { html: raw.lesson.contentHtml, fromSavedPage: false };
+    }
+
+    // Already localized when it was saved
+    const saved = pageHtml ? extractElementInner(pageHtml, '<div class="content">') : null;
+    return { html: (saved ?? '').trim(), fromSavedPage: true };
+}
+
+async function readResources(lessonDir: string, pageHtml: string | null): Promise<LessonPageResource[]> {
+    if (pageHtml) {
+        return extractResources(pageHtml).map(resource => ({
+            title: resource.title,
+            file: resource.isExternal ? resource.file : resource.file.replace(/^resources\//, ''),
+            isExternal: resource.isExternal
+        }));
+    }
+    const files = await fs.readdir(path.join(lessonDir, 'resources')).catch(() => [] as string[]);
+    // Skips the downloader's ledger and unfinished `.part` files
+    return files.filter(file => !file.startsWith('.') && !file.endsWith('.part')).map(file => ({ title: file, file }));
+}
+
+async function rerenderLesson(local: LocalLesson, course: CourseManifest, theme: Theme, hasLibrary: boolean): Promise<boolean> {
+    const { manifest, lessonDir } = local;
+    const indexPath = path.join(lessonDir, 'index.html');
+    const pageHtml = await fs.pathExists(indexPath) ? await fs.readFile(indexPath, 'utf8') : null;
+    const legacy = manifest as LocalLesson['manifest'] & { hasVideo?: boolean };
+    const videos = Array.isArray(manifest.videos) ? manifest.videos : [];
+
+    const body = await readLessonBody(local, pageHtml);
+    let contentHtml = body.html;
+    if (!body.fromSavedPage) {
+        contentHtml = await relinkImages(contentHtml, lessonDir);
+        for (const video of findEmbeddedVideos(contentHtml)) {
+            const localVideo = videos.find(entry => entry.embedded && entry.url === video.url);
+            if (localVideo) {
+                contentHtml = replaceEmbeddedVideo(contentHtml, video, renderVideoTag(localVideo.file, localVideo.subtitles));
+            }
+        }
+    }
+
+    let discussionHtml = '';
+    let commentsCount: number | undefined;
+    const commentsPath = path.join(lessonDir, 'comments.json');
+    if (await fs.pathExists(commentsPath)) {
+        const comments: LessonComment[] = await fs.readJson(commentsPath);
+        commentsCount = countComments(comments);
+        if (commentsCount > 0) {
+            discussionHtml = await relinkImages(renderComments(comments), lessonDir);
+        }
+    }
+
+    const primaryVideo = videos.find(video => !video.embedded)
+        ?? (!Array.isArray(manifest.videos) && legacy.hasVideo ? { file: 'video.mp4' } : undefined);
+
+    const html = renderLessonPage({
+        lessonId: manifest.lessonId,
+        skoolCompleted: manifest.completed,
+        title: manifest.title,
+        groupName: course.groupName,
+        courseName: course.courseName,
+        moduleTitle: manifest.moduleTitle,
+        isRootLesson: manifest.moduleDirName === '',
+        hasLibrary,
+        relativePath: manifest.relativePath,
+        video: primaryVideo,
+        contentHtml,
+        resources: await readResources(lessonDir, pageHtml),
+        discussionHtml,
+        commentsCount
+    }, theme);
+
+    await writeAtomicHtml(indexPath, html);
+    return body.fromSavedPage;
+}
+
+/**
+ * Rebuilds every lesson `index.html` of a downloaded course from the files saved next to it
+ * (`lesson.json`, `content.json` or `lesson.raw.json`, `comments.json`, local media), without
+ * network or browser access, then the course and group indexes. Archived lessons are left as
+ * they are.
+ */
+export async function rerenderCourse(courseDir: string, options: RerenderOptions = {}): Promise<RerenderSummary> {
+    const logger = options.logger ?? createConsoleLogger();
+    const manifestPath = path.join(courseDir, '.course.json');
+    if (!await fs.pathExists(manifestPath)) {
+        throw new Error(`No .course.json found in ${courseDir}. Is this a downloaded course folder?`);
+    }
+    const course: CourseManifest = await fs.readJson(manifestPath);
+    const themeDir = resolveThemeDir(options.themeDir, course.themeDir);
+    const theme = await loadTheme(themeDir);
+    if (themeDir !== course.themeDir) {
+        // Remember the theme so later downloads and index rebuilds keep using it
+        await fs.writeJson(manifestPath, { ...course, themeDir }, { spaces: 2 });
+    }
+    await installThemeAssets(theme, courseDir);
+    const lessons = Array.from((await loadLocalLessons(courseDir)).values())
+        .filter(local => !local.archived)
+        .sort((a, b) => a.manifest.moduleIndex - b.manifest.moduleIndex || a.manifest.lessonIndex - b.manifest.lessonIndex);
+
+    logger.info(`🎨 Re-rendering ${lessons.length} lessons of ${course.courseName}...`);
+
+    const hasLibrary = isLibraryDir(path.dirname(path.dirname(courseDir)));
+    const summary: RerenderSummary = { rendered: 0, failed: 0, fromSavedPage: 0 };
+    for (const local of lessons) {
+        try {
+            const fromSavedPage = await rerenderLesson(local, course, theme, hasLibrary);
+            summary.rendered += 1;
+            if (fromSavedPage) summary.fromSavedPage += 1;
+        } catch (err) {
+            summary.failed += 1;
+            logger.warn(`  ⚠️ Failed to re-render ${local.manifest.title}: ${String(err)}`);
+        }
+    }
+
+    await regenerateIndex(courseDir, { silent: true });
+    await regenerateGroupIndex(path.dirname(courseDir), { silent: true });
+    if (hasLibrary) {
+        await regenerateLibraryIndex(path.dirname(path.dirname(courseDir)), { silent: true });
+    }
+
+    logger.info(`✅ Re-rendered ${summary.rendered} lessons${summary.failed ? `, ${summary.failed} failed` : ''}.`);
+    if (summary.fromSavedPage > 0) {
+        logger.info(`ℹ️ ${summary.fromSavedPage} lessons had no saved content data; their body was kept from the existing page.`);
+    }
+    return summary;
+}
@@ -0,0 +1,122 @@
+/** Retries after the first attempt when nothing else is configured. */
+export const DEFAULT_RETRIES = 2;
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+/** Longest `Retry-After` honored; a server asking for more is waited on this long instead. */
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * `transient` failures (timeouts, dropped connections, 5xx, 429) may work on another attempt;
+ * `permanent` ones (403 from an expired token, 404, bad data) will not.
+ */
+export type ErrorClass = 'transient' | 'permanent';
+
+export type RetryOptions = {
+    /** Extra attempts after the first one. */
+    retries?: number;
+    /** Called before waiting for the next attempt. */
+    onRetry?: (info: { error: unknown; attempt: number; attempts: number; delayMs: number }) => void;
+};
+
+/** An HTTP error response from a request that does not throw on its own (e.g. Playwright navigation). */
+export class HttpStatusError extends Error {
+    status: number;
+    retryAfter?: string;
+
+    constructor(message: string, status: number, retryAfter?: string) {
+        super(message);
+        this.name = 'HttpStatusError';
+        this.status = status;
+        this.retryAfter = retryAfter;
+    }
+}
+
+const TRANSIENT_CODES = new Set([
+    'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EPIPE',
+    'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ERR_STREAM_PREMATURE_CLOSE'
+]);
+
+// Errors without a status or code: Playwright timeouts and network failures, yt-dlp output,
+// dropped streams and our own size checks
+const TRANSIENT_MESSAGES = [
+    /timed? ?out/i,
+    /timeout \d+ms exceeded/i,
+    /net::ERR_/,
+    /socket hang up/i,
+    /\baborted\b/i,
+    /connection (reset|refused|closed)/i,
+    /temporar(y|ily)/i,
+    /Incomplete download/i
+];
+
+function statusOf(error: any): number | undefined {
+    const status = error?.status ?? error?.response?.status;
+    if (typeof status === 'number') return status;
+    // yt-dlp reports "HTTP Error 403: Forbidden"; failed API calls "HTTP 429"
+    const match = /\bHTTP (?:Error )?(\d{3})\b/.exec(String(error?.message ?? error));
+    return match ? Number(match[1]) : undefined;
+}
+
+export function classifyError(error: unknown): ErrorClass {
+    const status = statusOf(error);
+    if (status !== undefined) {
+        return status === 408 || status === 429 || status >= 500 ? 'transient' : 'permanent';
+    }
+
+    const err = error as any;
+    if (err?.code && TRANSIENT_CODES.has(err.code)) return 'transient';
+    if (err?.name === 'TimeoutError') return 'transient';
+    if (error instanceof TypeError || error instanceof SyntaxError || error instanceof RangeError) return 'permanent';
+
+    const message = String(err?.message ?? error);
+    return TRANSIENT_MESSAGES.some(pattern => pattern.test(message)) ? 'transient' : 'permanent';
+}
+
+/** First line of an error, short enough for a log line (yt-dlp errors carry its whole stderr). */
+export function briefError(error: unknown) {
+    const line = String(error).split('\n')[0];
+    return line.length > 200 ? `${line.slice(0, 197)}...` : line;
+}
+
+/** How long the server asked us to wait, from a `Retry-After` of seconds or an HTTP date. */
+export function retryAfterMs(error: unknown): number | undefined {
+    const err = error as any;
+    const header = err?.retryAfter ?? err?.response?.headers?.['retry-after'];
+    if (header === undefined || header === null || header === '') return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(header));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Exponential backoff with jitter, so parallel lessons that failed together don't retry together. */
+function backoffMs(attempt: number) {
+    const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * Runs `fn` until it succeeds, fails with a permanent error or runs out of attempts, and
+ * rethrows the last error. Waits grow exponentially between attempts, or follow `Retry-After`
+ * when the server sent one.
+ */
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const attempts = Math.max(0, Math.floor(options.retries ?? DEFAULT_RETRIES)) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (error) {
+            if (attempt >= attempts || classifyError(error) === 'permanent') throw error;
+
+            const requested = retryAfterMs(error);
+            const delayMs = requested !== undefined
+                ? Math.min(MAX_RETRY_AFTER_MS, Math.max(requested, backoffMs(attempt)))
+                : backoffMs(attempt);
+            options.onRetry?.({ error, attempt, attempts, delayMs });
+            await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+    }
+}
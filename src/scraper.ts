@@ -1,7 +1,11 @@
-import { chromium, type Browser, type BrowserContext } from 'playwright';
+import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
 import fs from 'fs-extra';
 import { createConsoleLogger, type Logger } from './logger.js';
 import { STORAGE_STATE_PATH } from './auth.js';
+import { escapeHtml, isTipTapBody, parseTipTapBody, renderTipTap, type TipTapNode } from './tiptap.js';
+import { detectVideoSource, findEmbeddedVideos, type EmbeddedVideo, type VideoSource } from './videos.js';
+import { SKOOL_API_URL, SKOOL_BASE_URL, SkoolHttpClient, type ApiResponse } from './http-client.js';
+import { briefError, HttpStatusError, withRetry } from './retry.js';
 
 export interface Resource {
     title: string;
@@ -12,16 +16,42 @@ export interface Resource {
     isExternal?: boolean;
 }
 
+export interface LessonComment {
+    id: string;
+    author: CommunityAuthor;
+    createdAt?: string;
+    contentHtml: string;
+    likes?: number;
+    replies: LessonComment[];
+}
+
 export interface Lesson {
     id: string;
     title: string;
     url: string;
     index?: number;
+    createdAt?: string;
+    /** Remote last-modified time from the classroom tree, used by incremental sync. */
+    updatedAt?: string;
+    /** Whether the logged-in member finished the lesson on Skool; absent when the tree doesn't say. */
+    completed?: boolean;
     contentHtml?: string;
+    /** The TipTap nodes `contentHtml` was rendered from, when the body is rich text. */
+    contentJson?: TipTapNode[];
     videoLink?: string;
+    /** Host of `videoLink`; `mux` for native Skool videos. */
+    videoSource?: VideoSource;
+    /** Skool's id for a native video, when the lesson has one. */
+    videoId?: string;
+    embeddedVideos?: EmbeddedVideo[];
     resources?: Resource[];
+    comments?: LessonComment[];
 }
 
+export type ExtractLessonOptions = {
+    comments?: boolean;
+};
+
 export interface Module {
     title: string;
     index: number;
@@ -31,8 +61,13 @@ export interface Module {
 
 export interface ClassroomResult {
     groupName: string;
+    groupLogoUrl?: string;
+    groupCoverUrl?: string;
     courseName: string;
     courseImageUrl?: string;
+    updatedAt?: string;
+    /** The member's course progress on Skool, in percent. */
+    progress?: number;
     modules: Module[];
 }
 
@@ -55,6 +90,65 @@ export interface CourseLibraryResult {
     courses: CourseListItem[];
 }
 
+export interface CommunityAuthor {
+    id?: string;
+    name: string;
+    handle?: string;
+    avatarUrl?: string;
+}
+
+export interface CommunityAttachment {
+    id?: string;
+    title: string;
+    fileName?: string;
+    contentType?: string;
+    downloadUrl?: string;
+    isImage?: boolean;
+    isExternal?: boolean;
+}
+
+export interface CommunityPost {
+    id: string;
+    slug?: string;
+    title: string;
+    url: string;
+    contentHtml: string;
+    author: CommunityAuthor;
+    createdAt?: string;
+    updatedAt?: string;
+    pinned: boolean;
+    category?: string;
+    likes?: number;
+    commentsCount?: number;
+    attachments: CommunityAttachment[];
+}
+
+export interface CommunityFeedResult {
+    groupName: string;
+    groupUrl: string;
+    posts: CommunityPost[];
+}
+
+export type FetchMode = 'browser' | 'http';
+
+export type ScraperOptions = {
+    /**
+     * `browser` (default) loads every page in headless Chromium. `http` fetches pages directly
+     * with the saved login cookies and only falls back to Chromium for native player capture.
+     */
+    fetchMode?: FetchMode;
+    /** Extra attempts for pages that fail with a transient error. */
+    retries?: number;
+    /** Skool's page origin; page URLs come from the input, this is sent as the Referer. */
+    baseUrl?: string;
+    /** Skool's API origin. Both exist so the scraper can run against a local stub server. */
+    apiUrl?: string;
+};
+
+export type CommunityFeedOptions = {
+    maxPages?: number;
+};
+
 function resolveClassroomRootUrl(inputUrl: string) {
     const urlObj = new URL(inputUrl);
     const segments = urlObj.pathname.split('/').filter(Boolean);
@@ -71,13 +165,122 @@ function resolveClassroomRootUrl(inputUrl: string) {
     return urlObj.toString();
 }
 
+function resolveGroupRootUrl(inputUrl: string) {
+    const urlObj = new URL(inputUrl);
+    const [groupSlug] = urlObj.pathname.split('/').filter(Boolean);
+    if (!groupSlug) throw new Error(`Could not determine the community from ${inputUrl}`);
+    urlObj.pathname = `/${groupSlug}`;
+    urlObj.search = '';
+    urlObj.hash = '';
+    return urlObj.toString();
+}
+
+function renderPlainPostContent(content: string) {
+    return content
+        .split(/\n{2,}/)
+        .map(block => block.trim())
+        .filter(Boolean)
+        .map(block => `<p>${escapeHtml(block).replace(/\n/g, '<br/>')}</p>`)
+        .join('');
+}
+
+function toIsoDate(value: unknown): string | undefined {
+    if (!value) return undefined;
+    const date = new Date(value as string);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * The logged-in member's completion flag for a classroom tree node. It sits on the node or in
+ * its course metadata, as a boolean or a 0/1 number.
+ */
+function readCompletion(node: any): boolean | undefined {
+    const value = node?.course?.metadata?.completed ?? node?.course?.completed ?? node?.completed ?? node?.progress?.completed;
+    if (value === undefined || value === null) return undefined;
+    return value === true || value === 1 || value === '1';
+}
+
+function readProgressPercent(courseData: any): number | undefined {
+    const value = courseData?.course?.metadata?.progress ?? courseData?.metadata?.progress ?? courseData?.progress;
+    const percent = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof percent === 'number' && Number.isFinite(percent) ? percent : undefined;
+}
+
+function mapPostAuthor(user: any): CommunityAuthor {
+    const metadata = user?.metadata || {};
+    const fullName = [user?.firstName, user?.lastName].filter(Boolean).join(' ');
+    return {
+        id: user?.id,
+        name: fullName || user?.name || 'Unknown Member',
+        handle: user?.name,
+        avatarUrl: metadata.pictureProfile || metadata.pictureBubble || undefined
+    };
+}
+
+function mapPostAttachments(post: any): CommunityAttachment[] {
+    const metadata = post?.metadata || {};
+    const rawAttachments = post?.attachmentsData || post?.attachments_data || metadata.attachmentsData || [];
+    if (!Array.isArray(rawAttachments)) return [];
+
+    return rawAttachments.map((attachment: any, index: number) => {
+        const attachmentMeta = attachment?.metadata || {};
+        const contentType = attachmentMeta.contentType || attachmentMeta.content_type || attachment?.content_type;
+        const fileName = attachmentMeta.fileName || attachmentMeta.file_name || attachment?.file_name;
+        const link = attachmentMeta.link || attachmentMeta.videoLink;
+        const url = attachmentMeta.url || attachmentMeta.image || link;
+        const isImage = typeof contentType === 'string'
+            ? contentType.startsWith('image/')
+            : !!attachmentMeta.image;
+
+        return {
+            id: attachment?.id,
+            title: attachmentMeta.title || fileName || `Attachment ${index + 1}`,
+            fileName,
+            contentType,
+            downloadUrl: url,
+            isImage,
+            isExternal: !!link && !isImage
+        };
+    });
+}
+
+/** Top-level comments requested per page of the comments API. */
+const COMMENTS_PAGE_SIZE = 100;
+/** Stops runaway paging when the API keeps returning full pages. */
+const MAX_COMMENT_PAGES = 50;
+
+function reconstructMuxUrl(pageProps: any, videoId: string): string {
+    const videoData = pageProps.video || pageProps.course?.video;
+    if (videoData && videoData.id === videoId && videoData.playbackId && videoData.playbackToken) {
+        return `https://stream.video.skool.com/${videoData.playbackId}.m3u8?token=${videoData.playbackToken}`;
+    }
+    return '';
+}
+
 export class Scraper {
     private browser: Browser | null = null;
     private context: BrowserContext | null = null;
     private logger: Logger;
+    private fetchMode: FetchMode;
+    private http: SkoolHttpClient;
+    private apiUrl: string;
+    private retries?: number;
 
-    constructor(logger: Logger = createConsoleLogger()) {
+    constructor(logger: Logger = createConsoleLogger(), options: ScraperOptions = {}) {
         this.logger = logger;
+        this.fetchMode = options.fetchMode ?? 'browser';
+        this.http = new SkoolHttpClient({ baseUrl: options.baseUrl ?? SKOOL_BASE_URL });
+        this.apiUrl = (options.apiUrl ?? SKOOL_API_URL).replace(/\/$/, '');
+        this.retries = options.retries;
+    }
+
+    private retry<T>(url: string, fn: () => Promise<T>): Promise<T> {
+        return withRetry(fn, {
+            retries: this.retries,
+            onRetry: ({ error, attempt, attempts, delayMs }) => {
+                this.logger.warn(`    🔁 Loading ${url} failed (${briefError(error)}), retrying in ${(delayMs / 1000).toFixed(1)}s [${attempt + 1}/${attempts}]`);
+            }
+        });
     }
 
     async init() {
@@ -93,22 +296,53 @@ export class Scraper {
         if (this.browser) await this.browser.close();
     }
 
-    async parseClassroom(url: string): Promise<ClassroomResult> {
+    private async openPage(url: string, settleMs: number): Promise<Page> {
         if (!this.context) await this.init();
         const page = await this.context!.newPage();
+        try {
+            const response = await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
+            if (response && response.status() >= 400) {
+                throw new HttpStatusError(`HTTP ${response.status()} loading ${url}`, response.status(), response.headers()['retry-after']);
+            }
+            await page.waitForTimeout(settleMs);
+            return page;
+        } catch (err) {
+            await page.close();
+            throw err;
+        }
+    }
 
-        // Ensure we are using a clean classroom URL without query params for structure extraction
-        const cleanUrl = url.split('?')[0]!;
-        this.logger.info(`Navigating to ${cleanUrl}...`);
-        await page.goto(cleanUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
-        await page.waitForTimeout(2000);
-
-        const nextData = await page.evaluate(() => {
+    private async readNextData(page: Page): Promise<any | null> {
+        return page.evaluate(() => {
             const script = document.getElementById('__NEXT_DATA__');
             return script ? JSON.parse(script.innerText) : null;
         });
+    }
+
+    /**
+     * Loads a page's __NEXT_DATA__ JSON, straight from the server-rendered HTML in `http`
+     * mode or through headless Chromium otherwise.
+     */
+    private async loadNextData(url: string): Promise<any | null> {
+        return this.retry(url, async () => {
+            if (this.fetchMode === 'http') {
+                return this.http.fetchNextData(url);
+            }
+
+            const page = await this.openPage(url, 2000);
+            try {
+                return await this.readNextData(page);
+            } finally {
+                await page.close();
+            }
+        });
+    }
 
-        await page.close();
+    async parseClassroom(url: string): Promise<ClassroomResult> {
+        // Ensure we are using a clean classroom URL without query params for structure extraction
+        const cleanUrl = url.split('?')[0]!;
+        this.logger.info(`Navigating to ${cleanUrl}...`);
+        const nextData = await this.loadNextData(cleanUrl);
 
         if (!nextData) throw new Error('Could not find __NEXT_DATA__ on classroom page');
 
@@ -123,6 +357,8 @@ export class Scraper {
         // Extract Group (Community) Name
         const groupData = pageProps.currentGroup || {};
         const groupName = groupData.metadata?.name || groupData.name || 'Unknown Group';
+        const groupLogoUrl: string | undefined = groupData.metadata?.logoUrl || groupData.metadata?.logoBigUrl || undefined;
+        const groupCoverUrl: string | undefined = groupData.metadata?.coverSmallUrl || groupData.metadata?.coverUrl || undefined;
 
         // Extract Course Name
         let courseName = 'Unknown Course';
@@ -180,7 +416,10 @@ export class Scraper {
                         id: modInfo.id,
                         title: modInfo.metadata?.title || modInfo.name || 'Untitled Lesson',
                         url: `${cleanUrl}?md=${modInfo.id}`,
-                        index: lIdx + 1
+                        index: lIdx + 1,
+                        createdAt: toIsoDate(modInfo.createdAt),
+                        updatedAt: toIsoDate(modInfo.updatedAt),
+                        completed: readCompletion(mod)
                     };
                 }).filter((l: Lesson) => l.id);
 
@@ -208,34 +447,30 @@ export class Scraper {
                     id: lessonInfo.id,
                     title: lessonInfo.metadata?.title || lessonInfo.name || 'Untitled Lesson',
                     url: `${cleanUrl}?md=${lessonInfo.id}`,
-                    index: rootModule.lessons.length + 1
+                    index: rootModule.lessons.length + 1,
+                    createdAt: toIsoDate(lessonInfo.createdAt),
+                    updatedAt: toIsoDate(lessonInfo.updatedAt),
+                    completed: readCompletion(node)
                 });
             }
         });
 
         return {
             groupName,
+            groupLogoUrl,
+            groupCoverUrl,
             courseName,
             courseImageUrl,
+            updatedAt: toIsoDate(courseData.course?.updatedAt || courseData.updatedAt),
+            progress: readProgressPercent(courseData),
             modules: modules.filter(m => m.lessons.length > 0)
         };
     }
 
     async parseCourseLibrary(url: string): Promise<CourseLibraryResult> {
-        if (!this.context) await this.init();
-        const page = await this.context!.newPage();
-
         const classroomUrl = resolveClassroomRootUrl(url);
         this.logger.info(`Navigating to ${classroomUrl}...`);
-        await page.goto(classroomUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
-        await page.waitForTimeout(2000);
-
-        const nextData = await page.evaluate(() => {
-            const script = document.getElementById('__NEXT_DATA__');
-            return script ? JSON.parse(script.innerText) : null;
-        });
-
-        await page.close();
+        const nextData = await this.loadNextData(classroomUrl);
 
         if (!nextData) throw new Error('Could not find __NEXT_DATA__ on classroom page');
 
@@ -288,306 +523,488 @@ export class Scraper {
         };
     }
 
-    async extractLessonData(url: string): Promise<Lesson> {
-        if (!this.context) await this.init();
-        const page = await this.context!.newPage();
-
-        await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 60000 });
-        await page.waitForTimeout(5000);
+    /** Reads a lesson page, retrying transient failures. */
+    async extractLessonData(url: string, options: ExtractLessonOptions = {}): Promise<Lesson> {
+        return this.retry(url, () => this.readLessonData(url, options));
+    }
 
-        const nextData = await page.evaluate(() => {
-            const script = document.getElementById('__NEXT_DATA__');
-            return script ? JSON.parse(script.innerText) : null;
-        });
+    private async readLessonData(url: string, options: ExtractLessonOptions): Promise<Lesson> {
+        // In HTTP mode the page is only opened later, for lessons whose native player
+        // has to be clicked before Mux hands out a signed stream URL.
+        let page: Page | null = null;
+        try {
+            let nextData: any;
+            if (this.fetchMode === 'http') {
+                nextData = await this.http.fetchNextData(url);
+            } else {
+                page = await this.openPage(url, 5000);
+                nextData = await this.readNextData(page);
+            }
 
-        if (!nextData) throw new Error(`Could not find __NEXT_DATA__ for lesson at ${url}`);
+            if (!nextData) {
+                throw new Error(`Could not find __NEXT_DATA__ for lesson at ${url}`);
+            }
 
-        const pageProps = nextData.props?.pageProps || {};
-        const urlObj = new URL(url);
-        const md = urlObj.searchParams.get('md') || urlObj.searchParams.get('lesson');
+            const pageProps = nextData.props?.pageProps || {};
+            const urlObj = new URL(url);
+            const md = urlObj.searchParams.get('md') || urlObj.searchParams.get('lesson');
 
-        let foundLesson: any = null;
+            let foundLesson: any = null;
 
-        const findInTree = (node: any) => {
-            if (node.course?.id === md) {
-                foundLesson = node.course;
-                return;
-            }
-            if (node.children) {
-                for (const child of node.children) {
-                    findInTree(child);
-                    if (foundLesson) return;
+            const findInTree = (node: any) => {
+                if (node.course?.id === md) {
+                    foundLesson = node.course;
+                    return;
+                }
+                if (node.children) {
+                    for (const child of node.children) {
+                        findInTree(child);
+                        if (foundLesson) return;
+                    }
                 }
+            };
+
+            if (pageProps.course) {
+                findInTree(pageProps.course);
             }
-        };
 
-        if (pageProps.course) {
-            findInTree(pageProps.course);
-        }
+            if (!foundLesson) {
+                foundLesson = pageProps.lesson || pageProps.course?.course;
+            }
 
-        if (!foundLesson) {
-            foundLesson = pageProps.lesson || pageProps.course?.course;
-        }
+            const metadata = foundLesson?.metadata || {};
 
-        const metadata = foundLesson?.metadata || {};
+            // Handle native videoId vs videoLink
+            let vLink = metadata.videoLink || foundLesson?.video?.url || '';
 
-        // Handle native videoId vs videoLink
-        let vLink = metadata.videoLink || foundLesson?.video?.url || '';
+            // Native Skool Player Handling (Mux)
+            if (!vLink && metadata.videoId) {
+                this.logger.info(`    ℹ️ Native videoId found: ${metadata.videoId}.`);
 
-        // Native Skool Player Handling (Mux)
-        if (!vLink && metadata.videoId) {
-            this.logger.info(`    ℹ️ Native videoId found: ${metadata.videoId}.`);
+                try {
+                    if (this.fetchMode === 'http') {
+                        vLink = reconstructMuxUrl(pageProps, metadata.videoId);
+                        if (!vLink) {
+                            this.logger.info('    🌐 Opening lesson in browser to capture the native stream...');
+                            page = await this.openPage(url, 5000);
+                        }
+                    }
 
-            try {
-                // Try to find and click the play button/thumbnail to trigger stream signed URL generation
-                const playButtonSelector = 'div[class*="MuxThumbnailWrapper"]';
-                const hasPlayButton = await page.evaluate((sel) => !!document.querySelector(sel), playButtonSelector);
-
-                if (hasPlayButton) {
-                    this.logger.info('    🖱️ Clicking play button to initialize stream...');
-                    await page.click(playButtonSelector);
-
-                    // Poll for the stream manifest to appear in network entries or player src
-                    let attempts = 0;
-                    while (attempts < 10) {
-                        vLink = await page.evaluate(() => {
-                            // 1. Check performance entries for m3u8
-                            const entries = performance.getEntriesByType('resource')
-                                .filter(e => e.name.includes('m3u8') && e.name.includes('token='));
-                            if (entries.length > 0) return (entries[entries.length - 1] as PerformanceResourceTiming).name;
-
-                            // 2. Search all shadow roots for a video element (BFS)
-                            const stack: any[] = [document];
-                            while (stack.length > 0) {
-                                const root = stack.pop();
-                                const video = root.querySelector('video');
-                                if (video && video.src && video.src.includes('m3u8')) return video.src;
-
-                                const elements = root.querySelectorAll('*');
-                                for (let i = 0; i < elements.length; i++) {
-                                    if (elements[i].shadowRoot) {
-                                        stack.push(elements[i].shadowRoot);
+                    if (page && !vLink) {
+                        // Try to find and click the play button/thumbnail to trigger stream signed URL generation
+                        const playButtonSelector = 'div[class*="MuxThumbnailWrapper"]';
+                        const hasPlayButton = await page.evaluate((sel) => !!document.querySelector(sel), playButtonSelector);
+
+                        if (hasPlayButton) {
+                            this.logger.info('    🖱️ Clicking play button to initialize stream...');
+                            await page.click(playButtonSelector);
+
+                            // Poll for the stream manifest to appear in network entries or player src
+                            let attempts = 0;
+                            while (attempts < 10) {
+                                vLink = await page.evaluate(() => {
+                                    // 1. Check performance entries for m3u8
+                                    const entries = performance.getEntriesByType('resource')
+                                        .filter(e => e.name.includes('m3u8') && e.name.includes('token='));
+                                    if (entries.length > 0) return (entries[entries.length - 1] as PerformanceResourceTiming).name;
+
+                                    // 2. Search all shadow roots for a video element (BFS)
+                                    const stack: any[] = [document];
+                                    while (stack.length > 0) {
+                                        const root = stack.pop();
+                                        const video = root.querySelector('video');
+                                        if (video && video.src && video.src.includes('m3u8')) return video.src;
+
+                                        const elements = root.querySelectorAll('*');
+                                        for (let i = 0; i < elements.length; i++) {
+                                            if (elements[i].shadowRoot) {
+                                                stack.push(elements[i].shadowRoot);
+                                            }
+                                        }
                                     }
-                                }
-                            }
-                            return null;
-                        });
+                                    return null;
+                                });
 
-                        if (vLink) break;
-                        await page.waitForTimeout(1000);
-                        attempts++;
+                                if (vLink) break;
+                                await page.waitForTimeout(1000);
+                                attempts++;
+                            }
+                        }
                     }
-                }
 
-                // Fallback: Reconstruct from pageProps if interaction failed but we have IDs
-                if (!vLink) {
-                    const videoData = pageProps.video || pageProps.course?.video;
-                    if (videoData && videoData.id === metadata.videoId && videoData.playbackId && videoData.playbackToken) {
-                        this.logger.info('    ℹ️ Using reconstructed HLS URL from page props fallback.');
-                        vLink = `https://stream.video.skool.com/${videoData.playbackId}.m3u8?token=${videoData.playbackToken}`;
+                    // Fallback: Reconstruct from pageProps if interaction failed but we have IDs
+                    if (!vLink) {
+                        vLink = reconstructMuxUrl(pageProps, metadata.videoId);
+                        if (vLink) {
+                            this.logger.info('    ℹ️ Using reconstructed HLS URL from page props fallback.');
+                        }
                     }
+                } catch (err) {
+                    this.logger.warn(`    ⚠️ Interaction-based extraction failed: ${String(err)}`);
                 }
-            } catch (err) {
-                this.logger.warn(`    ⚠️ Interaction-based extraction failed: ${String(err)}`);
             }
-        }
 
-        // Resource extraction
-        let resources: Resource[] = [];
-        try {
-            // 1. Try to extract from metadata (standard native files)
-            const rawResources = metadata.resources || foundLesson?.resources || '[]';
-            if (typeof rawResources === 'string') {
-                resources = JSON.parse(rawResources);
-            } else if (Array.isArray(rawResources)) {
-                resources = rawResources;
-            }
-
-            // Normalize metadata resources (some have .link instead of .downloadUrl)
-            resources = resources.map((r: any) => {
-                if (r.link && !r.downloadUrl) {
-                    return {
-                        ...r,
-                        downloadUrl: r.link,
-                        isExternal: true
-                    };
+            // Resource extraction
+            let resources: Resource[] = [];
+            try {
+                // 1. Try to extract from metadata (standard native files)
+                const rawResources = metadata.resources || foundLesson?.resources || '[]';
+                if (typeof rawResources === 'string') {
+                    resources = JSON.parse(rawResources);
+                } else if (Array.isArray(rawResources)) {
+                    resources = rawResources;
                 }
-                return r;
-            });
 
-        } catch (e) {
-            this.logger.warn(`    ⚠️ Failed to parse metadata resources: ${String(e)}`);
-        }
+                // Normalize metadata resources (some have .link instead of .downloadUrl)
+                resources = resources.map((r: any) => {
+                    if (r.link && !r.downloadUrl) {
+                        return {
+                            ...r,
+                            downloadUrl: r.link,
+                            isExternal: true
+                        };
+                    }
+                    return r;
+                });
 
-        // 2. Scrape from DOM to catch external links and any native missing from metadata
-        try {
-            const domResources = await page.evaluate(() => {
-                const wrappers = Array.from(document.querySelectorAll('div[class*="ResourceWrapper"]'));
-                return wrappers.map(w => {
-                    const anchor = w.querySelector('a');
-                    const labelSpan = w.querySelector('span[class*="ResourceLabel"]');
-                    const title = labelSpan ? labelSpan.textContent?.trim() : 'Untitled Resource';
+            } catch (e) {
+                this.logger.warn(`    ⚠️ Failed to parse metadata resources: ${String(e)}`);
+            }
+
+            // 2. Scrape from DOM to catch external links and any native missing from metadata
+            // (only possible when a browser page is open; HTTP mode relies on metadata alone)
+            try {
+                const domResources = !page ? [] : await page.evaluate((apiHost) => {
+                    const wrappers = Array.from(document.querySelectorAll('div[class*="ResourceWrapper"]'));
+                    return wrappers.map(w => {
+                        const anchor = w.querySelector('a');
+                        const labelSpan = w.querySelector('span[class*="ResourceLabel"]');
+                        const title = labelSpan ? labelSpan.textContent?.trim() : 'Untitled Resource';
                     
-                    const url = anchor ? anchor.href : null;
-                    // If it has an anchor and it's not a skool download link, it's external
-                    const isExternal = !!(url && !url.includes('api2.skool.com') && !url.includes('/files/'));
+                        const url = anchor ? anchor.href : null;
+                        // If it has an anchor and it's not a skool download link, it's external
+                        const isExternal = !!(url && !url.includes(apiHost) && !url.includes('/files/'));
 
-                    return { title, url, isExternal };
-                });
-            });
-
-            // Merge DOM resources into the metadata resources
-            for (const domRes of domResources) {
-                const exists = resources.some(r => r.title === domRes.title);
-                if (!exists && domRes.title) {
-                    if (domRes.isExternal && domRes.url) {
-                        resources.push({
-                            title: domRes.title,
-                            downloadUrl: domRes.url,
-                            isExternal: true,
-                            file_name: domRes.title
-                        });
-                    } else {
-                        // If it's native but wasn't in metadata, it might be a link-style resource 
-                        // that still points to a skool file.
-                        if (domRes.url) {
+                        return { title, url, isExternal };
+                    });
+                }, new URL(this.apiUrl).host);
+
+                // Merge DOM resources into the metadata resources
+                for (const domRes of domResources) {
+                    const exists = resources.some(r => r.title === domRes.title);
+                    if (!exists && domRes.title) {
+                        if (domRes.isExternal && domRes.url) {
                             resources.push({
                                 title: domRes.title,
                                 downloadUrl: domRes.url,
+                                isExternal: true,
                                 file_name: domRes.title
                             });
+                        } else {
+                            // If it's native but wasn't in metadata, it might be a link-style resource 
+                            // that still points to a skool file.
+                            if (domRes.url) {
+                                resources.push({
+                                    title: domRes.title,
+                                    downloadUrl: domRes.url,
+                                    file_name: domRes.title
+                                });
+                            }
                         }
                     }
                 }
+            } catch (err) {
+                this.logger.warn(`    ⚠️ DOM-based resource scraping failed: ${String(err)}`);
             }
-        } catch (err) {
-            this.logger.warn(`    ⚠️ DOM-based resource scraping failed: ${String(err)}`);
-        }
 
-        // Fetch download URLs for each native resource using direct API calls
-        if (resources.length > 0) {
-            this.logger.info(`    📥 Found ${resources.length} resources. Fetching download URLs...`);
+            // Fetch download URLs for each native resource using direct API calls
+            if (resources.length > 0) {
+                this.logger.info(`    📥 Found ${resources.length} resources. Fetching download URLs...`);
 
-            for (const res of resources) {
-                // Skip if it's already an external link or already has a download URL
-                if (res.isExternal || (res.downloadUrl && res.downloadUrl.startsWith('http')) || !res.file_id) {
-                    continue;
-                }
+                for (const res of resources) {
+                    // Skip if it's already an external link or already has a download URL
+                    if (res.isExternal || (res.downloadUrl && res.downloadUrl.startsWith('http')) || !res.file_id) {
+                        continue;
+                    }
 
-                try {
-                    this.logger.info(`      🔗 Requesting download URL for "${res.title}"...`);
-                    const response = await page.evaluate(async (fileId: string) => {
-                        const apiUrl = `https://api2.skool.com/files/${fileId}/download-url?expire=28800`;
-                        try {
-                            const resp = await fetch(apiUrl, {
-                                method: 'POST',
-                                credentials: 'include'
-                            });
-                            if (!resp.ok) return { success: false, error: `HTTP ${resp.status}` };
-                            const text = await resp.text();
-                            return { success: true, url: text.trim() };
-                        } catch (e) {
-                            return { success: false, error: String(e) };
+                    try {
+                        this.logger.info(`      🔗 Requesting download URL for "${res.title}"...`);
+                        const response = await this.requestFileDownloadUrl(page, res.file_id);
+
+                        if (response.success && response.url) {
+                            res.downloadUrl = response.url;
+                            this.logger.info(`      ✅ Got download URL for "${res.title}"`);
+                        } else {
+                            this.logger.warn(`      ⚠️ Failed to get download URL for "${res.title}": ${response.error}`);
                         }
-                    }, res.file_id);
+                    } catch (err) {
+                        this.logger.warn(`      ⚠️ Error fetching download URL for "${res.title}": ${String(err)}`);
+                    }
+                }
+            }
 
-                    if (response.success && response.url) {
-                        res.downloadUrl = response.url;
-                        this.logger.info(`      ✅ Got download URL for "${res.title}"`);
-                    } else {
-                        this.logger.warn(`      ⚠️ Failed to get download URL for "${res.title}": ${response.error}`);
+            let comments: LessonComment[] | undefined;
+            if (options.comments) {
+                try {
+                    comments = await this.extractLessonComments(page, pageProps, foundLesson);
+                    if (comments.length > 0) {
+                        this.logger.info(`    💬 Found ${comments.length} discussion threads.`);
                     }
                 } catch (err) {
-                    this.logger.warn(`      ⚠️ Error fetching download URL for "${res.title}": ${String(err)}`);
+                    this.logger.warn(`    ⚠️ Failed to load lesson discussion: ${String(err)}`);
+                    comments = [];
                 }
             }
-        }
 
-        await page.close();
+            // Skool stores rich text as a stringified JSON array or primitive HTML
+            let body = metadata.desc || foundLesson?.body || '';
+            let contentJson: TipTapNode[] | undefined;
 
-        // Skool stores rich text as a stringified JSON array or primitive HTML
-        let body = metadata.desc || foundLesson?.body || '';
-
-        // If it looks like [v2][{"type"...}], it's TipTap/JSON format
-        if (typeof body === 'string' && body.startsWith('[v2]')) {
-            try {
-                const jsonPart = body.substring(4);
-                const nodes = JSON.parse(jsonPart);
-                body = this.parseTipTap(nodes);
-            } catch (e) {
-                this.logger.error(`Failed to parse TipTap content: ${String(e)}`);
+            // If it looks like [v2][{"type"...}], it's TipTap/JSON format
+            if (isTipTapBody(body)) {
+                try {
+                    contentJson = parseTipTapBody(body);
+                    body = renderTipTap(contentJson, this.logger);
+                } catch (e) {
+                    this.logger.error(`Failed to parse TipTap content: ${String(e)}`);
+                }
             }
-        }
 
-        return {
-            id: md || foundLesson?.id || '',
-            title: metadata.title || foundLesson?.name || '',
-            url: url,
-            contentHtml: body,
-            videoLink: vLink,
-            resources: resources
-        };
+            return {
+                id: md || foundLesson?.id || '',
+                title: metadata.title || foundLesson?.name || '',
+                url: url,
+                contentHtml: body,
+                contentJson,
+                videoLink: vLink,
+                videoSource: vLink ? (metadata.videoId ? 'mux' : detectVideoSource(vLink)) : undefined,
+                videoId: metadata.videoId || undefined,
+                embeddedVideos: typeof body === 'string' ? findEmbeddedVideos(body) : [],
+                resources: resources,
+                comments
+            };
+        } finally {
+            if (page) await page.close();
+        }
     }
 
-    // Helper removed as logic is now in extractLessonData for shared state
-
+    /**
+     * Lesson discussions are regular post trees attached to the lesson. They are usually
+     * embedded in __NEXT_DATA__; otherwise they are requested from the comments API, page by
+     * page until a page comes back short (following the API's cursor when it sends one).
+     */
+    private async extractLessonComments(page: Page | null, pageProps: any, lessonNode: any): Promise<LessonComment[]> {
+        const embeddedTrees =
+            pageProps.postTree?.children ||
+            pageProps.commentTrees ||
+            pageProps.comments ||
+            pageProps.lessonComments;
+        if (Array.isArray(embeddedTrees)) {
+            return embeddedTrees.map((tree: any) => this.mapLessonComment(tree)).filter(Boolean) as LessonComment[];
+        }
 
-    private parseTipTap(nodes: any[]): string {
-        return nodes.map(node => {
-            if (node.type === 'paragraph') {
-                return `<p>${this.parseTipTapContent(node.content)}</p>`;
+        const postId = lessonNode?.metadata?.postId || lessonNode?.metadata?.discussionPostId || pageProps.postTree?.post?.id;
+        if (!postId) return [];
+
+        const groupId = pageProps.currentGroup?.id;
+        const commentsById = new Map<string, LessonComment>();
+        let cursor: string | undefined;
+
+        for (let pageNumber = 1; pageNumber <= MAX_COMMENT_PAGES; pageNumber++) {
+            const query = new URLSearchParams();
+            if (groupId) query.set('group-id', groupId);
+            query.set('limit', String(COMMENTS_PAGE_SIZE));
+            if (cursor) {
+                query.set('cursor', cursor);
+            } else if (pageNumber > 1) {
+                query.set('page', String(pageNumber));
             }
-            if (node.type === 'hardBreak') {
-                return '<br/>';
-            }
-            if (node.type === 'bulletList') {
-                return `<ul>${this.parseTipTap(node.content)}</ul>`;
+            const response = await this.callSkoolApi(page, `${this.apiUrl}/posts/${postId}/comments?${query}`, 'GET');
+
+            if (!response.success) {
+                throw new Error(`Comments request failed: ${response.error}`);
             }
-            if (node.type === 'orderedList') {
-                return `<ol>${this.parseTipTap(node.content)}</ol>`;
+
+            const data = JSON.parse(response.text || '{}');
+            const trees = data?.postTree?.children || data?.comments || [];
+            if (!Array.isArray(trees)) break;
+
+            let newComments = 0;
+            for (const tree of trees) {
+                const comment = this.mapLessonComment(tree);
+                if (!comment || commentsById.has(comment.id)) continue;
+                commentsById.set(comment.id, comment);
+                newComments += 1;
             }
-            if (node.type === 'listItem') {
-                return `<li>${this.parseTipTap(node.content)}</li>`;
+
+            if (trees.length < COMMENTS_PAGE_SIZE) break;
+            if (newComments === 0) {
+                // A full page of comments seen before: the API ignored the page parameter
+                this.logger.warn(`    ⚠️ The discussion has more than ${commentsById.size} comments but no further pages could be loaded; comments.json may be incomplete.`);
+                break;
             }
-            if (node.type === 'heading') {
-                const level = node.attrs?.level || 2;
-                return `<h${level}>${this.parseTipTapContent(node.content)}</h${level}>`;
+            if (pageNumber === MAX_COMMENT_PAGES) {
+                this.logger.warn(`    ⚠️ Stopped after ${MAX_COMMENT_PAGES} pages of comments; comments.json may be incomplete.`);
             }
-            if (node.type === 'image' || node.type === 'image-block' || (node.attrs && node.attrs.src)) {
-                 const src = node.attrs.src || node.attrs.url || node.attrs.originalSrc;
-                 const alt = node.attrs.alt || '';
-                 if (src) {
-                    return `<img src="${src}" alt="${alt}" />`;
-                 }
+            const nextCursor = data?.nextCursor ?? data?.next_cursor ?? data?.cursor;
+            cursor = typeof nextCursor === 'string' && nextCursor ? nextCursor : undefined;
+        }
+
+        return Array.from(commentsById.values());
+    }
+
+    private mapLessonComment(tree: any): LessonComment | null {
+        const post = tree?.post || tree;
+        if (!post?.id) return null;
+
+        const children = Array.isArray(tree?.children) ? tree.children : [];
+        return {
+            id: post.id,
+            author: mapPostAuthor(post.user),
+            createdAt: toIsoDate(post.createdAt),
+            contentHtml: this.renderPostContent(post),
+            likes: post.metadata?.upvotes,
+            replies: children.map((child: any) => this.mapLessonComment(child)).filter(Boolean) as LessonComment[]
+        };
+    }
+
+    async parseCommunityFeed(url: string, options: CommunityFeedOptions = {}): Promise<CommunityFeedResult> {
+        const groupUrl = resolveGroupRootUrl(url);
+        const maxPages = options.maxPages && options.maxPages > 0 ? options.maxPages : 50;
+        const postsById = new Map<string, CommunityPost>();
+        let groupName = 'Unknown Group';
+
+        for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+            const pageUrl = pageNumber === 1 ? groupUrl : `${groupUrl}?p=${pageNumber}`;
+            this.logger.info(`Navigating to ${pageUrl}...`);
+            const nextData = await this.loadNextData(pageUrl);
+
+            if (!nextData) throw new Error(`Could not find __NEXT_DATA__ on community page ${pageUrl}`);
+
+            const pageProps = nextData.props?.pageProps || {};
+            const groupData = pageProps.currentGroup || {};
+            groupName = groupData.metadata?.name || groupData.name || groupName;
+
+            // Pinned posts are only rendered on the first page, separately from the feed
+            const trees = [
+                ...(Array.isArray(pageProps.pinnedPostTrees) ? pageProps.pinnedPostTrees : []),
+                ...(Array.isArray(pageProps.pinnedPosts) ? pageProps.pinnedPosts : []),
+                ...(Array.isArray(pageProps.postTrees) ? pageProps.postTrees : [])
+            ];
+
+            let newPosts = 0;
+            for (const tree of trees) {
+                const post = tree?.post || tree;
+                if (!post?.id || postsById.has(post.id)) continue;
+                postsById.set(post.id, this.mapCommunityPost(post, groupUrl));
+                newPosts += 1;
             }
-            if (node.type === 'blockquote') {
-                 return `<blockquote>${this.parseTipTap(node.content)}</blockquote>`;
+
+            this.logger.info(`    📰 Page ${pageNumber}: ${newPosts} new posts`);
+            if (newPosts === 0) break;
+        }
+
+        const posts = Array.from(postsById.values());
+        const attachmentsToResolve = posts
+            .flatMap(post => post.attachments)
+            .filter(attachment => !attachment.downloadUrl && attachment.id);
+
+        if (attachmentsToResolve.length > 0) {
+            this.logger.info(`    📥 Found ${attachmentsToResolve.length} attachments. Fetching download URLs...`);
+        }
+
+        for (const attachment of attachmentsToResolve) {
+            try {
+                const response = await this.requestFileDownloadUrl(null, attachment.id!);
+                if (response.success && response.url) {
+                    attachment.downloadUrl = response.url;
+                } else {
+                    this.logger.warn(`      ⚠️ Failed to get download URL for "${attachment.title}": ${response.error}`);
+                }
+            } catch (err) {
+                this.logger.warn(`      ⚠️ Error fetching download URL for "${attachment.title}": ${String(err)}`);
             }
+        }
 
-            // Fallback for nested content in unknown blocks
-            if (node.content) {
-                return `<div>${this.parseTipTap(node.content)}</div>`;
+        this.logger.info(`💬 Community detected: ${groupName} (${posts.length} posts)`);
+
+        return { groupName, groupUrl, posts };
+    }
+
+    private renderPostContent(post: any): string {
+        const rawContent = post?.metadata?.content || '';
+
+        if (isTipTapBody(rawContent)) {
+            try {
+                return renderTipTap(parseTipTapBody(rawContent), this.logger);
+            } catch (e) {
+                this.logger.error(`Failed to parse TipTap content for post ${post.id}: ${String(e)}`);
+                return renderPlainPostContent(rawContent);
             }
+        }
+        return typeof rawContent === 'string' ? renderPlainPostContent(rawContent) : '';
+    }
 
-            return '';
-        }).join('');
+    private mapCommunityPost(post: any, groupUrl: string): CommunityPost {
+        const metadata = post.metadata || {};
+        const contentHtml = this.renderPostContent(post);
+
+        return {
+            id: post.id,
+            slug: post.name,
+            title: metadata.title || post.name || 'Untitled Post',
+            url: post.name ? `${groupUrl.replace(/\/$/, '')}/${post.name}` : groupUrl,
+            contentHtml,
+            author: mapPostAuthor(post.user),
+            createdAt: toIsoDate(post.createdAt),
+            updatedAt: toIsoDate(post.updatedAt),
+            pinned: !!metadata.pinned,
+            category: post.label?.metadata?.displayName || post.labelName || undefined,
+            likes: metadata.upvotes,
+            commentsCount: metadata.comments,
+            attachments: mapPostAttachments(post)
+        };
     }
 
-    private parseTipTapContent(content: any[]): string {
-        if (!content) return '';
-        return content.map(item => {
-            if (item.type === 'text') {
-                let text = item.text;
-                if (item.marks) {
-                    item.marks.forEach((mark: any) => {
-                        if (mark.type === 'bold') text = `<b>${text}</b>`;
-                        if (mark.type === 'link') text = `<a href="${mark.attrs.href}">${text}</a>`;
+    /**
+     * Calls a Skool API endpoint with the logged-in session: through the open page when there
+     * is one, otherwise via plain HTTP (http mode) or the browser context's request API.
+     */
+    private async callSkoolApi(page: Page | null, url: string, method: 'GET' | 'POST'): Promise<ApiResponse> {
+        if (page) {
+            return page.evaluate(async ({ apiUrl, apiMethod }: { apiUrl: string; apiMethod: string }) => {
+                try {
+                    const resp = await fetch(apiUrl, {
+                        method: apiMethod,
+                        credentials: 'include'
                     });
+                    if (!resp.ok) return { success: false, status: resp.status, error: `HTTP ${resp.status}` };
+                    return { success: true, status: resp.status, text: await resp.text() };
+                } catch (e) {
+                    return { success: false, error: String(e) };
                 }
-                return text;
-            }
-            if (item.type === 'hardBreak') return '<br/>';
-            return '';
-        }).join('');
+            }, { apiUrl: url, apiMethod: method });
+        }
+
+        if (this.fetchMode === 'http') {
+            return this.http.request(url, method);
+        }
+
+        if (!this.context) await this.init();
+        try {
+            const resp = await this.context!.request.fetch(url, { method });
+            if (!resp.ok()) return { success: false, status: resp.status(), error: `HTTP ${resp.status()}` };
+            return { success: true, status: resp.status(), text: await resp.text() };
+        } catch (e) {
+            return { success: false, error: String(e) };
+        }
+    }
+
+    private async requestFileDownloadUrl(page: Page | null, fileId: string) {
+        const response = await this.callSkoolApi(page, `${this.apiUrl}/files/${fileId}/download-url?expire=28800`, 'POST');
+        if (!response.success || !response.text) {
+            return { success: false, error: response.error };
+        }
+        return { success: true, url: response.text.trim() };
     }
 }
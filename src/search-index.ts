@@ -0,0 +1,249 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { extractElementInner, extractResources } from './course-reader.js';
+
+/** Script written next to a course's `index.html`; it registers the course's lessons for search. */
+export const SEARCH_INDEX_FILE = 'search-index.js';
+
+export type SearchLessonInput = {
+    title: string;
+    moduleTitle: string;
+    /** Lesson page relative to the course folder, e.g. `1-Module/1-Lesson/index.html`. */
+    path: string;
+};
+
+type SearchDocument = {
+    title: string;
+    module: string;
+    /** URL-encoded lesson page path, relative to the course folder. */
+    href: string;
+    resources: string[];
+    text: string;
+};
+
+type LessonVideos = {
+    videos?: Array<{ subtitles?: Array<{ file: string }> }>;
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+export function htmlToText(html: string) {
+    return html
+        .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+            if (entity[0] === '#') {
+                const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+                return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+            }
+            return ENTITIES[entity.toLowerCase()] ?? match;
+        })
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/** Plain text of a WebVTT file. Rolling auto-captions repeat lines, so repeats are dropped. */
+function captionText(vtt: string) {
+    const lines: string[] = [];
+    for (const block of vtt.replace(/\r/g, '').split(/\n{2,}/)) {
+        if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block)) continue;
+        for (const line of block.split('\n')) {
+            if (!line.trim() || line.includes('-->') || /^\d+$/.test(line.trim())) continue;
+            const text = htmlToText(line);
+            if (text && text !== lines[lines.length - 1]) lines.push(text);
+        }
+    }
+    return lines.join(' ');
+}
+
+function encodePath(relativePath: string) {
+    return relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+async function buildDocument(courseDir: string, lesson: SearchLessonInput): Promise<SearchDocument> {
+    const lessonDir = path.dirname(path.join(courseDir, lesson.path));
+    const pageHtml = await fs.readFile(path.join(courseDir, lesson.path), 'utf8').catch(() => '');
+    const manifest: LessonVideos | null = await fs.readJson(path.join(lessonDir, 'lesson.json')).catch(() => null);
+
+    const parts = [htmlToText(extractElementInner(pageHtml, '<div class="content">') ?? '')];
+    for (const video of manifest?.videos ?? []) {
+        // The first track is the default language; the others would repeat the same words
+        const track = video.subtitles?.[0];
+        if (!track) continue;
+        const vtt = await fs.readFile(path.join(lessonDir, track.file), 'utf8').catch(() => '');
+        if (vtt) parts.push(captionText(vtt));
+    }
+
+    return {
+        title: lesson.title,
+        module: lesson.moduleTitle,
+        href: encodePath(lesson.path),
+        resources: extractResources(pageHtml).map(resource => resource.title),
+        text: parts.filter(Boolean).join(' ')
+    };
+}
+
+/**
+ * Writes `search-index.js` for a course: lesson titles, body text, resource names and caption
+ * text. It is a script rather than JSON so pages opened from `file://` can load it.
+ */
+export async function writeCourseSearchIndex(
+    courseDir: string,
+    course: { courseName: string; groupName: string },
+    lessons: SearchLessonInput[]
+) {
+    const documents: SearchDocument[] = [];
+    for (const lesson of lessons) {
+        documents.push(await buildDocument(courseDir, lesson));
+    }
+
+    const payload = JSON.stringify({ course: course.courseName, group: course.groupName, lessons: documents })
+        // Keep the payload from closing the script element it is loaded into
+        .replace(/<\//g, '<\\/');
+    const script = `(window.SKOOL_SEARCH_INDEX = window.SKOOL_SEARCH_INDEX || []).push(Object.assign(${payload}, { base: (document.currentScript && document.currentScript.getAttribute('data-base')) || '' }));\n`;
+
+    const filePath = path.join(courseDir, SEARCH_INDEX_FILE);
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, script);
+    await fs.move(tempPath, filePath, { overwrite: true });
+}
+
+const SEARCH_WIDGET_CSS = `
+.search-box { margin: 28px 0 0; }
+.search-box input {
+    width: 100%;
+    padding: 14px 18px;
+    font: inherit;
+    font-size: 1.05rem;
+    border-radius: 14px;
+    border: 1px solid var(--ring, rgba(20,22,29,0.12));
+    background: var(--panel, #fff);
+    color: inherit;
+    box-shadow: 0 10px 24px rgba(15, 23, 42, 0.08);
+}
+.search-box input:focus { outline: 2px solid var(--accent, #3b82f6); outline-offset: 1px; }
+.search-status { margin: 10px 4px 0; color: var(--muted, #5b6271); font-size: 0.92rem; }
+.search-results { list-style: none; padding: 0; margin: 12px 0 0; display: grid; gap: 10px; }
+.search-results a {
+    display: block;
+    padding: 12px 16px;
+    border-radius: 12px;
+    background: var(--panel, #fff);
+    border: 1px solid var(--ring, rgba(20,22,29,0.08));
+    color: inherit;
+    text-decoration: none;
+}
+.search-results a:hover { border-color: var(--accent, #3b82f6); }
+.search-result-title { font-weight: 700; }
+.search-result-meta { font-size: 0.88rem; color: var(--muted, #5b6271); }
+.search-result-snippet { font-size: 0.94rem; margin-top: 4px; }
+.search-result-snippet mark { background: rgba(59,130,246,0.18); color: inherit; border-radius: 3px; }
+`.trim();
+
+// Runs in the browser. Every result must match all query words; title hits rank first.
+const SEARCH_WIDGET_SCRIPT = `
+(function () {
+    var input = document.getElementById('search-input');
+    var status = document.getElementById('search-status');
+    var list = document.getElementById('search-results');
+    var showCourse = input.getAttribute('data-show-course') === 'true';
+    var docs = [];
+    (window.SKOOL_SEARCH_INDEX || []).forEach(function (course) {
+        course.lessons.forEach(function (lesson) {
+            docs.push({
+                lesson: lesson,
+                course: course.course,
+                href: course.base + lesson.href,
+                title: lesson.title.toLowerCase(),
+                resources: lesson.resources.join(' ').toLowerCase(),
+                text: (lesson.module + ' ' + lesson.text).toLowerCase()
+            });
+        });
+    });
+    if (docs.length === 0) {
+        input.disabled = true;
+        input.placeholder = 'Search index not built yet (run regenerate-index)';
+        return;
+    }
+
+    function snippet(text, word) {
+        var at = text.toLowerCase().indexOf(word);
+        if (at === -1) return null;
+        var start = Math.max(0, at - 60);
+        var fragment = document.createElement('div');
+        fragment.className = 'search-result-snippet';
+        fragment.appendChild(document.createTextNode((start > 0 ? '…' : '') + text.slice(start, at)));
+        var mark = document.createElement('mark');
+        mark.textContent = text.slice(at, at + word.length);
+        fragment.appendChild(mark);
+        fragment.appendChild(document.createTextNode(text.slice(at + word.length, at + word.length + 100) + '…'));
+        return fragment;
+    }
+
+    function search() {
+        var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+        list.innerHTML = '';
+        if (words.length === 0) {
+            status.textContent = '';
+            return;
+        }
+        var matches = [];
+        docs.forEach(function (doc) {
+            var score = 0;
+            for (var i = 0; i < words.length; i++) {
+                var word = words[i];
+                var inTitle = doc.title.indexOf(word) !== -1;
+                var inResources = doc.resources.indexOf(word) !== -1;
+                if (!inTitle && !inResources && doc.text.indexOf(word) === -1) return;
+                score += inTitle ? 10 : inResources ? 3 : 1;
+            }
+            matches.push({ doc: doc, score: score });
+        });
+        matches.sort(function (a, b) { return b.score - a.score; });
+        status.textContent = matches.length === 0 ? 'No lessons found.' : matches.length + ' lesson' + (matches.length === 1 ? '' : 's') + ' found' + (matches.length > 50 ? ', showing the first 50.' : '.');
+
+        matches.slice(0, 50).forEach(function (match) {
+            var lesson = match.doc.lesson;
+            var item = document.createElement('li');
+            var link = document.createElement('a');
+            link.href = match.doc.href;
+            var title = document.createElement('div');
+            title.className = 'search-result-title';
+            title.textContent = lesson.title;
+            var meta = document.createElement('div');
+            meta.className = 'search-result-meta';
+            meta.textContent = (showCourse ? match.doc.course + ' · ' : '') + lesson.module;
+            link.appendChild(title);
+            link.appendChild(meta);
+            var preview = snippet(lesson.text, words[0]) || (lesson.resources.length ? snippet('📁 ' + lesson.resources.join(', '), words[0]) : null);
+            if (preview) link.appendChild(preview);
+            item.appendChild(link);
+            list.appendChild(item);
+        });
+    }
+
+    var timer;
+    input.addEventListener('input', function () {
+        clearTimeout(timer);
+        timer = setTimeout(search, 120);
+    });
+})();
+`.trim();
+
+/**
+ * Search box markup for a generated index page. `sources` lists the course search index
+ * scripts to load, each with the URL prefix from the page to that course folder.
+ */
+export function renderSearchWidget(sources: Array<{ src: string; base: string }>, options: { showCourse?: boolean } = {}): string {
+    const scripts = sources
+        .map(source => `<script src="${encodePath(source.src)}" data-base="${encodePath(source.base)}"></script>`)
+        .join('\n');
+    return `<div class="search-box">
+    <style>${SEARCH_WIDGET_CSS}</style>
+    <input id="search-input" type="search" placeholder="Search lessons, resources and captions…" autocomplete="off" data-show-course="${options.showCourse ? 'true' : 'false'}">
+    <p id="search-status" class="search-status"></p>
+    <ol id="search-results" class="search-results"></ol>
+    ${scripts}
+    <script>${SEARCH_WIDGET_SCRIPT}</script>
+</div>`;
+}
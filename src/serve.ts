@@ -0,0 +1,308 @@
+import fs from 'fs-extra';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { GROUP_ASSETS_DIR_NAME } from './library.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+import { regenerateGroupIndex } from './regenerate-group-index.js';
+import { regenerateIndex } from './regenerate-index.js';
+import { regenerateLibrary, regenerateLibraryIndex } from './regenerate-library-index.js';
+import { THEME_ASSETS_DIR_NAME } from './theme.js';
+
+export const DEFAULT_SERVE_PORT = 8080;
+
+/** `POST` here rebuilds the indexes; `?dir=Group/Course` limits it to one course. */
+export const REGENERATE_PATH = '/_regenerate';
+
+export type ServeOptions = {
+    /** Folder to serve; defaults to `downloads/` in the working directory. */
+    rootDir?: string;
+    port?: number;
+    /** Listen on every network interface instead of localhost only. */
+    lan?: boolean;
+    logger?: Logger;
+};
+
+const MIME_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.htm': 'text/html; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.json': 'application/json; charset=utf-8',
+    '.txt': 'text/plain; charset=utf-8',
+    '.md': 'text/markdown; charset=utf-8',
+    '.csv': 'text/csv; charset=utf-8',
+    '.xml': 'application/xml; charset=utf-8',
+    '.vtt': 'text/vtt; charset=utf-8',
+    '.srt': 'text/plain; charset=utf-8',
+    '.mp4': 'video/mp4',
+    '.m4v': 'video/mp4',
+    '.webm': 'video/webm',
+    '.mov': 'video/quicktime',
+    '.mkv': 'video/x-matroska',
+    '.mp3': 'audio/mpeg',
+    '.m4a': 'audio/mp4',
+    '.wav': 'audio/wav',
+    '.ogg': 'audio/ogg',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.avif': 'image/avif',
+    '.ico': 'image/x-icon',
+    '.pdf': 'application/pdf',
+    '.epub': 'application/epub+zip',
+    '.zip': 'application/zip',
+    '.doc': 'application/msword',
+    '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    '.xls': 'application/vnd.ms-excel',
+    '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    '.ppt': 'application/vnd.ms-powerpoint',
+    '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.ttf': 'font/ttf'
+};
+
+function contentType(filePath: string) {
+    return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Parses a single `bytes=` range. Returns `null` for a header this server ignores (serve the
+ * whole file) and `'unsatisfiable'` for a range outside the file.
+ */
+function parseRange(header: string, size: number): { start: number; end: number } | 'unsatisfiable' | null {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (!match[1] && !match[2])) return null;
+
+    let start: number;
+    let end: number;
+    if (!match[1]) {
+        // Suffix range: the last N bytes
+        start = Math.max(0, size - Number(match[2]));
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+    }
+    if (start >= size || start > end) return 'unsatisfiable';
+    return { start, end };
+}
+
+/** Maps a URL path to a file below `rootDir`, or `null` when it would leave the folder. */
+function resolveRequestPath(rootDir: string, urlPath: string): string | null {
+    let decoded: string;
+    try {
+        decoded = decodeURIComponent(urlPath);
+    } catch {
+        return null;
+    }
+    if (decoded.includes('\0')) return null;
+    const filePath = path.join(rootDir, path.normalize(decoded));
+    const relative = path.relative(rootDir, filePath);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) return null;
+    return filePath;
+}
+
+// Dot folders that pages load images and styles from. Other dot paths hold manifests, raw
+// data and failure logs with source URLs and ids, which stay private.
+const PUBLIC_DOT_DIRS = new Set([THEME_ASSETS_DIR_NAME, GROUP_ASSETS_DIR_NAME]);
+
+function isHiddenPath(rootDir: string, filePath: string) {
+    return path.relative(rootDir, filePath)
+        .split(path.sep)
+        .some(segment => segment.startsWith('.') && !PUBLIC_DOT_DIRS.has(segment));
+}
+
+/** Whether a `Host` header names this server: a loopback name or one of this machine's addresses. */
+function isOwnHost(hostHeader: string | undefined, port: number) {
+    if (!hostHeader) return false;
+    let url: URL;
+    try {
+        url = new URL(`http://${hostHeader}`);
+    } catch {
+        return false;
+    }
+    if (Number(url.port || 80) !== port) return false;
+    // IPv6 hosts come back bracketed; interface addresses are not
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    return ['localhost', '127.0.0.1', '::1'].includes(hostname)
+        || Object.values(os.networkInterfaces()).flat().some(entry => entry?.address === hostname);
+}
+
+function sendText(res: http.ServerResponse, status: number, message: string) {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(message);
+}
+
+async function serveFile(req: http.IncomingMessage, res: http.ServerResponse, filePath: string, size: number, mtime: Date) {
+    const headers: http.OutgoingHttpHeaders = {
+        'Content-Type': contentType(filePath),
+        'Accept-Ranges': 'bytes',
+        'Last-Modified': mtime.toUTCString(),
+        // Pages change whenever an index is regenerated, so always revalidate
+        'Cache-Control': 'no-cache'
+    };
+
+    const range = req.headers.range ? parseRange(req.headers.range, size) : null;
+    if (range === 'unsatisfiable') {
+        res.writeHead(416, { 'Content-Range': `bytes */${size}` });
+        res.end();
+        return;
+    }
+
+    const start = range?.start ?? 0;
+    const end = range?.end ?? size - 1;
+    if (range) {
+        headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+    }
+    headers['Content-Length'] = size === 0 ? 0 : end - start + 1;
+    res.writeHead(range ? 206 : 200, headers);
+
+    if (req.method === 'HEAD' || size === 0) {
+        res.end();
+        return;
+    }
+
+    const stream = fs.createReadStream(filePath, { start, end });
+    stream.on('error', () => res.destroy());
+    // Stop reading when the player seeks away and drops the connection
+    res.on('close', () => stream.destroy());
+    stream.pipe(res);
+}
+
+async function handleRegenerate(req: http.IncomingMessage, res: http.ServerResponse, rootDir: string, logger: Logger) {
+    if (req.method !== 'POST') {
+        res.writeHead(405, { Allow: 'POST', 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Send a POST request to regenerate the indexes.');
+        return;
+    }
+
+    // Browsers send an Origin with cross-site POSTs; a foreign Host means DNS rebinding
+    const host = req.headers.host;
+    const origin = req.headers.origin;
+    if (!isOwnHost(host, req.socket.localPort ?? 0) || (origin !== undefined && origin !== `http://${host}`)) {
+        sendText(res, 403, 'Indexes can only be regenerated from this server.');
+        return;
+    }
+
+    const dir = new URL(req.url ?? '/', 'http://localhost').searchParams.get('dir');
+    if (dir) {
+        const courseDir = resolveRequestPath(rootDir, `/${dir}`);
+        if (!courseDir || !await fs.pathExists(path.join(courseDir, '.course.json'))) {
+            sendText(res, 404, `No downloaded course at ${dir}`);
+            return;
+        }
+        await regenerateIndex(courseDir, { silent: true });
+        await regenerateGroupIndex(path.dirname(courseDir), { silent: true });
+        await regenerateLibraryIndex(rootDir, { silent: true });
+        logger.info(`🔄 Regenerated indexes for ${dir}`);
+        res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+        res.end(JSON.stringify({ courses: 1, groups: 1 }));
+        return;
+    }
+
+    const summary = await regenerateLibrary(rootDir);
+    logger.info(`🔄 Regenerated ${summary.courses} course indexes across ${summary.groups} groups`);
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(summary));
+}
+
+async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse, rootDir: string, logger: Logger) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname === REGENERATE_PATH) {
+        await handleRegenerate(req, res, rootDir, logger);
+        return;
+    }
+
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405, { Allow: 'GET, HEAD', 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('Method not allowed');
+        return;
+    }
+
+    const filePath = resolveRequestPath(rootDir, url.pathname);
+    if (!filePath) {
+        sendText(res, 400, 'Bad request');
+        return;
+    }
+    if (isHiddenPath(rootDir, filePath)) {
+        sendText(res, 404, 'Not found');
+        return;
+    }
+
+    let stat = await fs.stat(filePath).catch(() => null);
+    let servedPath = filePath;
+    if (stat?.isDirectory()) {
+        if (!url.pathname.endsWith('/')) {
+            // Relative links in index pages need the trailing slash
+            res.writeHead(301, { Location: `${url.pathname}/${url.search}` });
+            res.end();
+            return;
+        }
+        servedPath = path.join(filePath, 'index.html');
+        stat = await fs.stat(servedPath).catch(() => null);
+    }
+    if (!stat?.isFile()) {
+        sendText(res, 404, 'Not found');
+        return;
+    }
+
+    await serveFile(req, res, servedPath, stat.size, stat.mtime);
+}
+
+function lanAddresses(port: number) {
+    return Object.values(os.networkInterfaces())
+        .flat()
+        .filter(entry => entry && entry.family === 'IPv4' && !entry.internal)
+        .map(entry => `http://${entry!.address}:${port}/`);
+}
+
+/**
+ * Serves the downloads folder over HTTP, with byte ranges so videos can seek. Binds to
+ * localhost unless `lan` is set. Resolves once the server is listening.
+ */
+export async function startServer(options: ServeOptions = {}): Promise<{ server: http.Server; url: string }> {
+    const logger = options.logger ?? createConsoleLogger();
+    const rootDir = path.resolve(options.rootDir ?? path.join(process.cwd(), 'downloads'));
+    const port = options.port ?? DEFAULT_SERVE_PORT;
+    const host = options.lan ? '0.0.0.0' : '127.0.0.1';
+
+    if (!await fs.pathExists(rootDir)) {
+        throw new Error(`Folder not found: ${rootDir}`);
+    }
+
+    const server = http.createServer((req, res) => {
+        handleRequest(req, res, rootDir, logger).catch(err => {
+            logger.error(`⚠️ Failed to serve ${req.url}`, err);
+            if (!res.headersSent) {
+                sendText(res, 500, 'Internal server error');
+            } else {
+                res.destroy();
+            }
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    const address = server.address();
+    const boundPort = typeof address === 'object' && address ? address.port : port;
+    const url = `http://localhost:${boundPort}/`;
+    logger.info(`🌐 Serving ${rootDir} at ${url}`);
+    if (options.lan) {
+        for (const lanUrl of lanAddresses(boundPort)) {
+            logger.info(`   On your network: ${lanUrl}`);
+        }
+    }
+    logger.info(`   Rebuild indexes with: curl -X POST ${url}${REGENERATE_PATH.slice(1)}`);
+    return { server, url };
+}
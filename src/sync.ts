@@ -0,0 +1,173 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { downloadCourse, FAILURES_FILE, type CourseChangelog, type DownloadSummary, type LessonFailure } from './index.js';
+import type { SubtitleOptions, VideoQualityOptions } from './downloader.js';
+import type { FetchMode } from './scraper.js';
+import { createConsoleLogger, type Logger } from './logger.js';
+
+export type SyncOptions = {
+    /** A course classroom URL. When omitted, every course under `downloadsDir` is synced. */
+    url?: string;
+    outputDir?: string;
+    downloadsDir?: string;
+    concurrency?: number;
+    comments?: boolean;
+    subtitles?: SubtitleOptions | null;
+    videoQuality?: VideoQualityOptions;
+    retries?: number;
+    fetchMode?: FetchMode;
+    saveRaw?: boolean;
+    themeDir?: string;
+    logger?: Logger;
+};
+
+export type SyncedCourse = {
+    courseName: string;
+    outputDir: string;
+    changelog: CourseChangelog;
+    failedLessons: number;
+    failures: LessonFailure[];
+};
+
+export type SyncSummary = {
+    courses: SyncedCourse[];
+    failedCourses: Array<{ courseDir: string; error: string }>;
+};
+
+type SyncTarget = {
+    url: string;
+    outputDir?: string;
+};
+
+/**
+ * Finds previously downloaded courses (`<group>/<course>/.course.json`) that recorded the URL
+ * they were downloaded from.
+ */
+async function findSyncTargets(downloadsDir: string, logger: Logger): Promise<SyncTarget[]> {
+    const targets: SyncTarget[] = [];
+    if (!await fs.pathExists(downloadsDir)) return targets;
+
+    const groupEntries = await fs.readdir(downloadsDir, { withFileTypes: true });
+    for (const groupEntry of groupEntries) {
+        if (!groupEntry.isDirectory() || groupEntry.name.startsWith('.')) continue;
+        const groupPath = path.join(downloadsDir, groupEntry.name);
+        const courseEntries = await fs.readdir(groupPath, { withFileTypes: true });
+
+        for (const courseEntry of courseEntries) {
+            if (!courseEntry.isDirectory() || courseEntry.name.startsWith('.')) continue;
+            const coursePath = path.join(groupPath, courseEntry.name);
+            const manifestPath = path.join(coursePath, '.course.json');
+            if (!await fs.pathExists(manifestPath)) continue;
+
+            try {
+                const manifest = await fs.readJson(manifestPath);
+                if (typeof manifest?.courseUrl === 'string' && manifest.courseUrl) {
+                    targets.push({ url: manifest.courseUrl, outputDir: coursePath });
+                } else {
+                    logger.warn(`⚠️ Skipping ${coursePath}: no course URL recorded. Download it once more to enable sync.`);
+                }
+            } catch (err) {
+                logger.warn(`⚠️ Skipping ${coursePath}: unreadable course manifest.`);
+            }
+        }
+    }
+
+    return targets;
+}
+
+function formatChangelog(course: SyncedCourse): string {
+    const { changelog } = course;
+    const lines = [`📘 ${course.courseName}`];
+    const total = changelog.added.length + changelog.changed.length + changelog.moved.length + changelog.removed.length;
+    if (total === 0) {
+        lines.push(`   No changes (${changelog.unchanged} lessons up to date)`);
+        return lines.join('\n');
+    }
+
+    for (const entry of changelog.added) {
+        lines.push(`   + ${entry.moduleTitle} / ${entry.title}`);
+    }
+    for (const entry of changelog.changed) {
+        lines.push(`   ~ ${entry.moduleTitle} / ${entry.title}`);
+    }
+    for (const entry of changelog.moved) {
+        lines.push(`   > ${entry.moduleTitle} / ${entry.title}`);
+    }
+    for (const entry of changelog.removed) {
+        lines.push(`   - ${entry.moduleTitle} / ${entry.title}`);
+    }
+    lines.push(`   ${changelog.added.length} added, ${changelog.changed.length} changed, ${changelog.moved.length} moved, ${changelog.removed.length} removed, ${changelog.unchanged} unchanged`);
+    if (course.failedLessons > 0) {
+        const permanent = course.failures.filter(failure => failure.stage === 'lesson' && failure.errorClass === 'permanent').length;
+        lines.push(`   ⚠️ ${course.failedLessons} lessons failed and will be retried on the next sync${permanent > 0 ? ` (${permanent} with permanent errors such as 403 or 404)` : ''}`);
+    }
+    const partial = course.failures.filter(failure => failure.stage !== 'lesson').length;
+    if (partial > 0) {
+        lines.push(`   ⚠️ ${partial} videos or resources failed; see ${FAILURES_FILE}; their lessons will be retried on the next sync`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Re-scrapes only the lessons whose remote `updatedAt` differs from the local manifests and
+ * prints a changelog of added, changed and removed lessons per course.
+ */
+export async function syncCourses(options: SyncOptions = {}): Promise<SyncSummary> {
+    const logger = options.logger ?? createConsoleLogger();
+    const downloadsDir = options.downloadsDir ?? path.join(process.cwd(), 'downloads');
+
+    const targets: SyncTarget[] = options.url
+        ? [{ url: options.url, outputDir: options.outputDir }]
+        : await findSyncTargets(downloadsDir, logger);
+
+    const summary: SyncSummary = { courses: [], failedCourses: [] };
+    if (targets.length === 0) {
+        logger.info(`No downloaded courses found to sync in ${downloadsDir}`);
+        return summary;
+    }
+
+    logger.info(`🔁 Syncing ${targets.length} course${targets.length === 1 ? '' : 's'}...`);
+
+    for (const target of targets) {
+        let result: DownloadSummary;
+        try {
+            result = await downloadCourse({
+                url: target.url,
+                outputDir: target.outputDir,
+                concurrency: options.concurrency,
+                mode: 'course',
+                comments: options.comments,
+                subtitles: options.subtitles,
+                videoQuality: options.videoQuality,
+                retries: options.retries,
+                fetchMode: options.fetchMode,
+                saveRaw: options.saveRaw,
+                themeDir: options.themeDir,
+                incremental: true,
+                logger
+            });
+        } catch (err) {
+            summary.failedCourses.push({ courseDir: target.outputDir ?? target.url, error: String(err) });
+            logger.error(`❌ Failed to sync ${target.outputDir ?? target.url}: ${String(err)}`);
+            continue;
+        }
+
+        summary.courses.push({
+            courseName: result.courseName,
+            outputDir: result.outputDir,
+            changelog: result.changelog ?? { added: [], changed: [], moved: [], removed: [], unchanged: 0 },
+            failedLessons: result.failedLessons,
+            failures: result.failures
+        });
+    }
+
+    logger.info('\n📋 Sync changelog');
+    for (const course of summary.courses) {
+        logger.info(formatChangelog(course));
+    }
+    for (const failure of summary.failedCourses) {
+        logger.info(`❌ ${failure.courseDir}: ${failure.error}`);
+    }
+
+    return summary;
+}
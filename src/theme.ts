@@ -0,0 +1,100 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+export type ThemeTemplateName = 'lesson' | 'course-index' | 'group-index' | 'library-index';
+
+export type Theme = {
+    /** Theme folder, or the bundled default theme. */
+    dir: string;
+    templates: Record<ThemeTemplateName, string>;
+    /** The theme's `assets/` folder, copied next to generated pages as `.theme/`. */
+    assetsDir: string | null;
+};
+
+export const DEFAULT_THEME_DIR = fileURLToPath(new URL('./themes/default', import.meta.url));
+
+/** Folder (inside a course or group folder) that receives the theme's static assets. */
+export const THEME_ASSETS_DIR_NAME = '.theme';
+
+const TEMPLATE_NAMES: ThemeTemplateName[] = ['lesson', 'course-index', 'group-index', 'library-index'];
+
+const loadedThemes = new Map<string, Promise<Theme>>();
+const installedAssets = new Set<string>();
+
+async function readTheme(dir: string): Promise<Theme> {
+    if (!await fs.pathExists(dir)) {
+        throw new Error(`Theme folder not found: ${dir}`);
+    }
+
+    const templates = {} as Record<ThemeTemplateName, string>;
+    for (const name of TEMPLATE_NAMES) {
+        const file = path.join(dir, `${name}.html`);
+        // A theme may override only some pages; the rest come from the default theme
+        templates[name] = await fs.pathExists(file)
+            ? await fs.readFile(file, 'utf8')
+            : await fs.readFile(path.join(DEFAULT_THEME_DIR, `${name}.html`), 'utf8');
+    }
+
+    const assetsDir = path.join(dir, 'assets');
+    return {
+        dir,
+        templates,
+        assetsDir: await fs.pathExists(assetsDir) ? assetsDir : null
+    };
+}
+
+/**
+ * Picks the theme for a page: an explicit `--theme` value wins over the one recorded in the
+ * course manifest, and `default` switches back to the bundled theme.
+ */
+export function resolveThemeDir(requested: string | undefined, recorded: string | undefined): string | undefined {
+    if (requested === 'default') return undefined;
+    if (requested) return path.resolve(requested);
+    return recorded;
+}
+
+/**
+ * Loads a theme folder (`lesson.html`, `course-index.html`, `group-index.html`,
+ * `library-index.html` and an optional `assets/` folder). Without a folder the bundled default theme is used.
+ */
+export function loadTheme(themeDir?: string | null): Promise<Theme> {
+    const dir = themeDir ? path.resolve(themeDir) : DEFAULT_THEME_DIR;
+    let theme = loadedThemes.get(dir);
+    if (!theme) {
+        theme = readTheme(dir);
+        loadedThemes.set(dir, theme);
+        theme.catch(() => loadedThemes.delete(dir));
+    }
+    return theme;
+}
+
+/**
+ * Fills `{{name}}` placeholders. Values are inserted as is, so callers pass HTML that is
+ * already escaped; unknown placeholders become empty.
+ */
+export function renderTemplate(template: string, values: Record<string, string | number | undefined>): string {
+    return template.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (_match, name: string) => String(values[name] ?? ''));
+}
+
+/** Relative path from a generated page's folder to the `.theme/` folder of `rootDir`. */
+export function themeAssetsHref(rootDir: string, pageDir: string) {
+    const relative = path.relative(pageDir, path.join(rootDir, THEME_ASSETS_DIR_NAME));
+    return relative.split(path.sep).join('/');
+}
+
+/**
+ * Copies the theme's static assets to `<rootDir>/.theme/`, replacing what a previous theme
+ * left there. Each folder is only copied once per run.
+ */
+export async function installThemeAssets(theme: Theme, rootDir: string) {
+    const key = `${theme.dir}\0${rootDir}`;
+    if (installedAssets.has(key)) return;
+    installedAssets.add(key);
+
+    const targetDir = path.join(rootDir, THEME_ASSETS_DIR_NAME);
+    await fs.remove(targetDir);
+    if (theme.assetsDir) {
+        await fs.copy(theme.assetsDir, targetDir);
+    }
+}
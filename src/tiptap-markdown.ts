@@ -0,0 +1,250 @@
+import { createConsoleLogger, type Logger } from './logger.js';
+import { pickSrc, type TipTapMark, type TipTapNode } from './tiptap.js';
+
+export type MarkdownRenderOptions = {
+    /** Maps an image URL to the link written in Markdown (e.g. a localized file). */
+    resolveImage?: (src: string) => string;
+    /** Maps a video or embed URL to a local file to embed; `null` keeps a link to the URL. */
+    resolveVideo?: (src: string) => string | null;
+    logger?: Logger;
+};
+
+const LIST_TYPES = new Set(['bulletList', 'orderedList', 'taskList']);
+
+function escapeMarkdown(text: string) {
+    return text
+        .replace(/([\\`*_[\]<~])/g, '\\$1')
+        .replace(/^(\s*)#/, '$1\\#');
+}
+
+function escapeTableCell(text: string) {
+    return text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+}
+
+function linkTarget(url: string) {
+    // Angle brackets allow spaces and parentheses in local paths
+    return /[\s()]/.test(url) ? `<${url}>` : url;
+}
+
+function indent(text: string, prefix: string) {
+    return text.split('\n').map(line => (line ? prefix + line : line)).join('\n');
+}
+
+/**
+ * Renders Skool's TipTap (`[v2]`) JSON into Markdown (CommonMark with GitHub tables, task
+ * lists and Obsidian `==highlights==`). Marks without a Markdown form fall back to inline
+ * HTML; unknown nodes keep their children and are reported once through the logger.
+ */
+export class TipTapMarkdownRenderer {
+    private logger: Logger;
+    private options: MarkdownRenderOptions;
+    private reported = new Set<string>();
+
+    constructor(options: MarkdownRenderOptions = {}) {
+        this.options = options;
+        this.logger = options.logger ?? createConsoleLogger();
+    }
+
+    render(nodes: TipTapNode[] | undefined): string {
+        return this.renderBlocks(nodes).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+    }
+
+    private reportUnknown(kind: 'node' | 'mark', type: string) {
+        const key = `${kind}:${type}`;
+        if (this.reported.has(key)) return;
+        this.reported.add(key);
+        this.logger.warn(`    ⚠️ Unknown TipTap ${kind} type "${type}" in Markdown export.`);
+    }
+
+    private renderBlocks(nodes: TipTapNode[] | undefined): string {
+        if (!Array.isArray(nodes)) return '';
+        return nodes
+            .map(node => this.renderBlock(node))
+            .filter(block => block.trim().length > 0)
+            .join('\n\n');
+    }
+
+    private renderInline(nodes: TipTapNode[] | undefined): string {
+        if (!Array.isArray(nodes)) return '';
+        return nodes.map(node => this.renderInlineNode(node)).join('');
+    }
+
+    private renderBlock(node: TipTapNode): string {
+        if (!node || typeof node !== 'object') return '';
+        const attrs = node.attrs || {};
+
+        switch (node.type) {
+            case 'doc':
+                return this.renderBlocks(node.content);
+            case 'paragraph':
+                return this.renderInline(node.content);
+            case 'heading': {
+                const level = Math.min(Math.max(Number(attrs.level) || 2, 1), 6);
+                return `${'#'.repeat(level)} ${this.renderInline(node.content)}`;
+            }
+            case 'blockquote':
+                return this.renderBlocks(node.content).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+            case 'horizontalRule':
+                return '---';
+            case 'bulletList':
+                return this.renderList(node, () => '- ');
+            case 'orderedList': {
+                const start = Number(attrs.start) || 1;
+                return this.renderList(node, index => `${start + index}. `);
+            }
+            case 'taskList':
+                return this.renderList(node, (_index, item) => `- [${item.attrs?.checked ? 'x' : ' '}] `);
+            case 'codeBlock': {
+                const code = (node.content || []).map(child => child.text ?? '').join('');
+                const fence = code.includes('```') ? '~~~' : '```';
+                return `${fence}${attrs.language || ''}\n${code}\n${fence}`;
+            }
+            case 'table':
+                return this.renderTable(node);
+            case 'image':
+            case 'imageBlock':
+            case 'image-block':
+            case 'video':
+            case 'videoBlock':
+            case 'embed':
+            case 'iframe':
+            case 'youtube':
+            case 'vimeo':
+            case 'loom':
+            case 'wistia':
+            case 'text':
+            case 'hardBreak':
+            case 'mention':
+            case 'emoji':
+                return this.renderInlineNode(node);
+            default:
+                this.reportUnknown('node', String(node.type));
+                return this.renderBlocks(node.content);
+        }
+    }
+
+    private renderList(node: TipTapNode, marker: (index: number, item: TipTapNode) => string): string {
+        return (node.content || []).map((item, index) => {
+            const prefix = marker(index, item);
+            // Nested lists follow their paragraph directly so the outer list stays tight
+            const body = (item.content || [])
+                .map(child => ({ child, text: this.renderBlock(child) }))
+                .filter(({ text }) => text.trim().length > 0)
+                .map(({ child, text }, childIndex) => (childIndex === 0 ? '' : LIST_TYPES.has(child.type) ? '\n' : '\n\n') + text)
+                .join('');
+            const [first = '', ...rest] = body.split('\n');
+            const continuation = rest.length > 0 ? `\n${indent(rest.join('\n'), ' '.repeat(prefix.length))}` : '';
+            return `${prefix}${first}${continuation}`;
+        }).join('\n');
+    }
+
+    private renderTable(node: TipTapNode): string {
+        const rows = (node.content || []).map(row => (row.content || []).map(cell =>
+            escapeTableCell(this.renderBlocks(cell.content).replace(/\n\n/g, '\n'))
+        ));
+        if (rows.length === 0) return '';
+
+        const width = Math.max(...rows.map(row => row.length));
+        const pad = (row: string[]) => [...row, ...Array(width - row.length).fill('')];
+        const [header, ...body] = rows.map(pad);
+        return [
+            `| ${header.join(' | ')} |`,
+            `| ${header.map(() => '---').join(' | ')} |`,
+            ...body.map(row => `| ${row.join(' | ')} |`)
+        ].join('\n');
+    }
+
+    private renderInlineNode(node: TipTapNode): string {
+        if (!node || typeof node !== 'object') return '';
+        const attrs = node.attrs || {};
+
+        switch (node.type) {
+            case 'text':
+                return this.renderText(node);
+            case 'hardBreak':
+                return '  \n';
+            case 'mention':
+                return `@${attrs.label || attrs.name || attrs.id || ''}`;
+            case 'emoji':
+                return attrs.emoji || (attrs.name ? `:${attrs.name}:` : node.text || '');
+            case 'image':
+            case 'imageBlock':
+            case 'image-block': {
+                const src = pickSrc(attrs);
+                if (!src) return '';
+                const resolved = this.options.resolveImage ? this.options.resolveImage(src) : src;
+                return `![${escapeMarkdown(attrs.alt || '')}](${linkTarget(resolved)})`;
+            }
+            case 'video':
+            case 'videoBlock':
+            case 'embed':
+            case 'iframe':
+            case 'youtube':
+            case 'vimeo':
+            case 'loom':
+            case 'wistia': {
+                const src = pickSrc(attrs);
+                if (!src) return '';
+                const local = this.options.resolveVideo?.(src);
+                return local ? `![](${linkTarget(local)})` : `[▶ Watch video](${linkTarget(src)})`;
+            }
+            default:
+                return this.renderBlock(node);
+        }
+    }
+
+    private renderText(node: TipTapNode): string {
+        const marks = node.marks || [];
+        const isCode = marks.some(mark => mark.type === 'code');
+        let text = node.text ?? '';
+        if (!text) return '';
+
+        if (isCode) {
+            const fence = text.includes('`') ? '``' : '`';
+            text = `${fence}${text}${fence}`;
+        } else {
+            text = escapeMarkdown(text);
+        }
+
+        // Emphasis can't start or end with whitespace, so keep it outside the markers
+        const [, leading, core, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(text)!;
+        if (!core) return text;
+        let wrapped = core;
+        for (const mark of marks) {
+            wrapped = this.applyMark(wrapped, mark);
+        }
+        return `${leading}${wrapped}${trailing}`;
+    }
+
+    private applyMark(text: string, mark: TipTapMark): string {
+        const attrs = mark.attrs || {};
+        switch (mark.type) {
+            case 'bold':
+                return `**${text}**`;
+            case 'italic':
+                return `*${text}*`;
+            case 'strike':
+                return `~~${text}~~`;
+            case 'highlight':
+                return `==${text}==`;
+            case 'underline':
+                return `<u>${text}</u>`;
+            case 'subscript':
+                return `<sub>${text}</sub>`;
+            case 'superscript':
+                return `<sup>${text}</sup>`;
+            case 'code':
+            case 'textStyle':
+                return text;
+            case 'link':
+                return attrs.href ? `[${text}](${linkTarget(attrs.href)})` : text;
+            default:
+                this.reportUnknown('mark', String(mark.type));
+                return text;
+        }
+    }
+}
+
+export function renderTipTapMarkdown(nodes: TipTapNode[], options?: MarkdownRenderOptions): string {
+    return new TipTapMarkdownRenderer(options).render(nodes);
+}
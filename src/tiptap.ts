@@ -0,0 +1,233 @@
+import { createConsoleLogger, type Logger } from './logger.js';
+
+export interface TipTapMark {
+    type: string;
+    attrs?: Record<string, any>;
+}
+
+export interface TipTapNode {
+    type: string;
+    attrs?: Record<string, any>;
+    content?: TipTapNode[];
+    marks?: TipTapMark[];
+    text?: string;
+}
+
+const TIPTAP_V2_PREFIX = '[v2]';
+
+export function isTipTapBody(body: unknown): body is string {
+    return typeof body === 'string' && body.startsWith(TIPTAP_V2_PREFIX);
+}
+
+/**
+ * Parses a Skool rich text body of the form `[v2][{"type": ...}]` into TipTap nodes.
+ * Throws if the JSON payload is malformed.
+ */
+export function parseTipTapBody(body: string): TipTapNode[] {
+    const parsed = JSON.parse(body.substring(TIPTAP_V2_PREFIX.length));
+    if (Array.isArray(parsed)) return parsed;
+    if (parsed?.type === 'doc' && Array.isArray(parsed.content)) return parsed.content;
+    return [parsed];
+}
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '')
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function rawJsonComment(value: unknown) {
+    // "--" may not appear inside an HTML comment; it can only occur inside JSON strings,
+    // where the unicode escape keeps the payload valid JSON.
+    const json = JSON.stringify(value).replace(/--/g, '-\\u002d');
+    return `<!-- tiptap:raw ${json} -->`;
+}
+
+export function pickSrc(attrs: Record<string, any> = {}): string | undefined {
+    return attrs.src || attrs.url || attrs.originalSrc || attrs.href || undefined;
+}
+
+function sizeAttrs(attrs: Record<string, any> = {}) {
+    let out = '';
+    if (attrs.width) out += ` width="${escapeHtml(attrs.width)}"`;
+    if (attrs.height) out += ` height="${escapeHtml(attrs.height)}"`;
+    return out;
+}
+
+function cellAttrs(attrs: Record<string, any> = {}) {
+    let out = '';
+    if (attrs.colspan && attrs.colspan > 1) out += ` colspan="${escapeHtml(attrs.colspan)}"`;
+    if (attrs.rowspan && attrs.rowspan > 1) out += ` rowspan="${escapeHtml(attrs.rowspan)}"`;
+    return out;
+}
+
+function alignStyle(attrs: Record<string, any> = {}) {
+    const align = attrs.textAlign;
+    if (!align || align === 'left') return '';
+    return ` style="text-align: ${escapeHtml(align)}"`;
+}
+
+/**
+ * Renders Skool's TipTap (`[v2]`) JSON into HTML.
+ *
+ * Unknown nodes and marks are reported through the logger. Unknown nodes are kept in the
+ * output as a raw JSON comment (their children are still rendered) so no content is dropped.
+ */
+export class TipTapRenderer {
+    private logger: Logger;
+    private reported = new Set<string>();
+
+    constructor(logger: Logger = createConsoleLogger()) {
+        this.logger = logger;
+    }
+
+    render(nodes: TipTapNode[] | undefined): string {
+        if (!Array.isArray(nodes)) return '';
+        return nodes.map(node => this.renderNode(node)).join('');
+    }
+
+    private reportUnknown(kind: 'node' | 'mark', type: string) {
+        const key = `${kind}:${type}`;
+        if (this.reported.has(key)) return;
+        this.reported.add(key);
+        this.logger.warn(`    ⚠️ Unknown TipTap ${kind} type "${type}", keeping raw JSON.`);
+    }
+
+    private renderNode(node: TipTapNode): string {
+        if (!node || typeof node !== 'object') return '';
+        const attrs = node.attrs || {};
+        const children = () => this.render(node.content);
+
+        switch (node.type) {
+            case 'doc':
+                return children();
+            case 'text':
+                return this.renderText(node);
+            case 'paragraph':
+                return `<p${alignStyle(attrs)}>${children()}</p>`;
+            case 'hardBreak':
+                return '<br/>';
+            case 'heading': {
+                const level = Math.min(Math.max(Number(attrs.level) || 2, 1), 6);
+                return `<h${level}${alignStyle(attrs)}>${children()}</h${level}>`;
+            }
+            case 'blockquote':
+                return `<blockquote>${children()}</blockquote>`;
+            case 'horizontalRule':
+                return '<hr/>';
+            case 'bulletList':
+                return `<ul>${children()}</ul>`;
+            case 'orderedList': {
+                const start = Number(attrs.start);
+                return `<ol${start && start !== 1 ? ` start="${start}"` : ''}>${children()}</ol>`;
+            }
+            case 'listItem':
+                return `<li>${children()}</li>`;
+            case 'taskList':
+                return `<ul class="task-list">${children()}</ul>`;
+            case 'taskItem': {
+                const checked = attrs.checked ? ' checked' : '';
+                return `<li class="task-item"><input type="checkbox" disabled${checked}/><div>${children()}</div></li>`;
+            }
+            case 'codeBlock': {
+                const language = attrs.language ? ` class="language-${escapeHtml(attrs.language)}"` : '';
+                const code = (node.content || []).map(child => child.text ?? '').join('');
+                return `<pre><code${language}>${escapeHtml(code)}</code></pre>`;
+            }
+            case 'table':
+                return `<div class="table-wrapper"><table><tbody>${children()}</tbody></table></div>`;
+            case 'tableRow':
+                return `<tr>${children()}</tr>`;
+            case 'tableHeader':
+                return `<th${cellAttrs(attrs)}>${children()}</th>`;
+            case 'tableCell':
+                return `<td${cellAttrs(attrs)}>${children()}</td>`;
+            case 'image':
+            case 'imageBlock':
+            case 'image-block': {
+                const src = pickSrc(attrs);
+                if (!src) return rawJsonComment(node);
+                const alt = escapeHtml(attrs.alt || '');
+                const title = attrs.title ? ` title="${escapeHtml(attrs.title)}"` : '';
+                return `<img src="${escapeHtml(src)}" alt="${alt}"${title}${sizeAttrs(attrs)} />`;
+            }
+            case 'mention': {
+                const label = attrs.label || attrs.name || attrs.id || '';
+                const id = attrs.id ? ` data-id="${escapeHtml(attrs.id)}"` : '';
+                return `<span class="mention"${id}>@${escapeHtml(label)}</span>`;
+            }
+            case 'emoji': {
+                if (attrs.emoji) return escapeHtml(attrs.emoji);
+                if (attrs.name) return `<span class="emoji">:${escapeHtml(attrs.name)}:</span>`;
+                return node.text ? escapeHtml(node.text) : '';
+            }
+            case 'video':
+            case 'videoBlock': {
+                const src = pickSrc(attrs);
+                if (!src) return rawJsonComment(node);
+                return `<video controls src="${escapeHtml(src)}"${sizeAttrs(attrs)}></video>`;
+            }
+            case 'embed':
+            case 'iframe':
+            case 'youtube':
+            case 'vimeo':
+            case 'loom':
+            case 'wistia': {
+                const src = pickSrc(attrs);
+                if (!src) return rawJsonComment(node);
+                return `<div class="embed"><iframe src="${escapeHtml(src)}"${sizeAttrs(attrs)} frameborder="0" allowfullscreen></iframe></div>`;
+            }
+            default:
+                this.reportUnknown('node', String(node.type));
+                return rawJsonComment({ ...node, content: undefined }) + children();
+        }
+    }
+
+    private renderText(node: TipTapNode): string {
+        let html = escapeHtml(node.text ?? '');
+        for (const mark of node.marks || []) {
+            html = this.applyMark(html, mark);
+        }
+        return html;
+    }
+
+    private applyMark(html: string, mark: TipTapMark): string {
+        const attrs = mark.attrs || {};
+        switch (mark.type) {
+            case 'bold':
+                return `<strong>${html}</strong>`;
+            case 'italic':
+                return `<em>${html}</em>`;
+            case 'underline':
+                return `<u>${html}</u>`;
+            case 'strike':
+                return `<s>${html}</s>`;
+            case 'code':
+                return `<code>${html}</code>`;
+            case 'subscript':
+                return `<sub>${html}</sub>`;
+            case 'superscript':
+                return `<sup>${html}</sup>`;
+            case 'highlight': {
+                const color = attrs.color ? ` style="background-color: ${escapeHtml(attrs.color)}"` : '';
+                return `<mark${color}>${html}</mark>`;
+            }
+            case 'textStyle':
+                return attrs.color ? `<span style="color: ${escapeHtml(attrs.color)}">${html}</span>` : html;
+            case 'link': {
+                if (!attrs.href) return html;
+                const target = attrs.target ? ` target="${escapeHtml(attrs.target)}"` : ' target="_blank"';
+                return `<a href="${escapeHtml(attrs.href)}"${target} rel="noopener noreferrer">${html}</a>`;
+            }
+            default:
+                this.reportUnknown('mark', String(mark.type));
+                return html;
+        }
+    }
+}
+
+export function renderTipTap(nodes: TipTapNode[], logger?: Logger): string {
+    return new TipTapRenderer(logger).render(nodes);
+}
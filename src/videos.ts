@@ -0,0 +1,84 @@
+import { escapeHtml } from './tiptap.js';
+
+export type VideoSource = 'mux' | 'youtube' | 'vimeo' | 'loom' | 'wistia' | 'native' | 'other';
+
+export interface EmbeddedVideo {
+    /** The `src` attribute exactly as it appears in the rendered HTML (may be HTML-escaped). */
+    src: string;
+    url: string;
+    source: VideoSource;
+    tag: 'iframe' | 'video';
+}
+
+const SOURCE_PATTERNS: Array<[VideoSource, RegExp]> = [
+    ['mux', /(^|\.)(stream\.video\.skool\.com|stream\.mux\.com)$/],
+    ['youtube', /(^|\.)(youtube\.com|youtube-nocookie\.com|youtu\.be)$/],
+    ['vimeo', /(^|\.)vimeo\.com$/],
+    ['loom', /(^|\.)loom\.com$/],
+    ['wistia', /(^|\.)(wistia\.com|wistia\.net|wi\.st)$/]
+];
+
+export function detectVideoSource(url: string): VideoSource {
+    try {
+        const { hostname, pathname } = new URL(url);
+        for (const [source, pattern] of SOURCE_PATTERNS) {
+            if (pattern.test(hostname)) return source;
+        }
+        if (/\.(mp4|m3u8|webm|mov)$/i.test(pathname)) return 'native';
+    } catch {
+        // Not a URL, fall through.
+    }
+    return 'other';
+}
+
+/**
+ * Finds every downloadable video in rendered lesson HTML: iframes pointing at a known video
+ * host and native <video> elements with a remote source.
+ */
+export function findEmbeddedVideos(html: string): EmbeddedVideo[] {
+    const videos: EmbeddedVideo[] = [];
+    const seen = new Set<string>();
+    const tagRegex = /<(iframe|video)\b[^>]*\ssrc="([^"]+)"/g;
+    let match;
+
+    while ((match = tagRegex.exec(html)) !== null) {
+        const tag = match[1] as 'iframe' | 'video';
+        const src = match[2];
+        const url = src.replace(/&amp;/g, '&');
+        if (!url.startsWith('http') || seen.has(url)) continue;
+
+        const source = detectVideoSource(url);
+        if (tag === 'iframe' && (source === 'other' || source === 'native')) continue;
+
+        seen.add(url);
+        videos.push({ src, url, source, tag });
+    }
+
+    return videos;
+}
+
+export function renderVideoTag(
+    file: string,
+    subtitles: Array<{ file: string; language: string; label: string }> = []
+): string {
+    const tracks = subtitles
+        .map((track, index) => `<track kind="subtitles" src="${encodeURI(track.file)}" srclang="${escapeHtml(track.language)}" label="${escapeHtml(track.label)}"${index === 0 ? ' default' : ''}>`)
+        .join('');
+    return `<video controls src="${encodeURI(file)}">${tracks}</video>`;
+}
+
+/**
+ * Swaps an embedded player for a local <video> element (see `renderVideoTag`). Iframes are
+ * replaced together with the `.embed` wrapper the TipTap renderer puts around them.
+ */
+export function replaceEmbeddedVideo(html: string, video: EmbeddedVideo, localTag: string): string {
+    const escapedSrc = video.src.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    if (video.tag === 'video') {
+        return html.replace(new RegExp(`<video\\b[^>]*\\ssrc="${escapedSrc}"[^>]*>[\\s\\S]*?</video>`, 'g'), () => localTag);
+    }
+
+    const wrapped = new RegExp(`<div class="embed"><iframe\\b[^>]*\\ssrc="${escapedSrc}"[^>]*></iframe></div>`, 'g');
+    const bare = new RegExp(`<iframe\\b[^>]*\\ssrc="${escapedSrc}"[^>]*>(</iframe>)?`, 'g');
+    return html.replace(wrapped, () => localTag).replace(bare, () => localTag);
+}
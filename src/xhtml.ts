@@ -0,0 +1,102 @@
+const VOID_ELEMENTS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+// Elements HTML lets authors leave open; a new sibling implicitly closes the previous one
+const IMPLICIT_CLOSE: Record<string, string[]> = {
+    li: ['li'],
+    p: ['p'],
+    tr: ['tr', 'td', 'th'],
+    td: ['td', 'th'],
+    th: ['td', 'th']
+};
+
+// XHTML only knows the five XML entities, so common HTML ones are rewritten as code points
+const NAMED_ENTITIES: Record<string, number> = {
+    nbsp: 160, copy: 169, reg: 174, trade: 8482, hellip: 8230, mdash: 8212, ndash: 8211,
+    lsquo: 8216, rsquo: 8217, ldquo: 8220, rdquo: 8221, laquo: 171, raquo: 187,
+    bull: 8226, middot: 183, times: 215, divide: 247, deg: 176, euro: 8364, pound: 163,
+    larr: 8592, rarr: 8594, uarr: 8593, darr: 8595, check: 10003
+};
+
+function normalizeEntities(text: string) {
+    return text.replace(/&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z][a-zA-Z0-9]*);|&/g, (match, entity?: string) => {
+        if (!entity) return '&amp;';
+        if (entity.startsWith('#') || ['amp', 'lt', 'gt', 'quot', 'apos'].includes(entity)) return match;
+        const codePoint = NAMED_ENTITIES[entity];
+        return codePoint ? `&#${codePoint};` : `&amp;${entity};`;
+    });
+}
+
+function normalizeAttributes(raw: string) {
+    const attributes: string[] = [];
+    const attrRegex = /([^\s=/"'<>]+)(?:\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+    let match;
+    while ((match = attrRegex.exec(raw)) !== null) {
+        const name = match[1].toLowerCase();
+        if (attributes.some(attr => attr.startsWith(`${name}=`))) continue;
+        const value = match[2] === undefined ? name : (match[3] ?? match[4] ?? match[5] ?? '');
+        attributes.push(`${name}="${normalizeEntities(value).replace(/"/g, '&quot;').replace(/</g, '&lt;')}"`);
+    }
+    return attributes.length > 0 ? ` ${attributes.join(' ')}` : '';
+}
+
+/**
+ * Best-effort conversion of rendered lesson HTML to well-formed XHTML: lower-case tags,
+ * quoted attribute values, self-closed void elements, XML-safe entities, and missing
+ * closing tags added.
+ */
+export function toXhtml(html: string): string {
+    const cleaned = html
+        .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!DOCTYPE[^>]*>/gi, '');
+
+    const output: string[] = [];
+    const stack: string[] = [];
+    const tokenRegex = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:\s+[^>]*?)?)\s*(\/?)>|([^<]+)|</g;
+    let match;
+
+    while ((match = tokenRegex.exec(cleaned)) !== null) {
+        const [token, closing, rawName, rawAttributes, , text] = match;
+
+        if (token.startsWith('<!--')) {
+            output.push(token.replace(/--(?!>)/g, '- -').replace(/^<!- -/, '<!--'));
+            continue;
+        }
+        if (text !== undefined) {
+            output.push(normalizeEntities(text));
+            continue;
+        }
+        if (!rawName) {
+            output.push('&lt;');
+            continue;
+        }
+
+        const name = rawName.toLowerCase();
+        if (closing) {
+            const openIndex = stack.lastIndexOf(name);
+            if (openIndex === -1) continue; // Stray closing tag
+            while (stack.length > openIndex) {
+                output.push(`</${stack.pop()}>`);
+            }
+            continue;
+        }
+
+        const attributes = normalizeAttributes(rawAttributes || '');
+        if (VOID_ELEMENTS.has(name)) {
+            output.push(`<${name}${attributes}/>`);
+            continue;
+        }
+        const implicitlyClosed = IMPLICIT_CLOSE[name] || [];
+        while (stack.length > 0 && implicitlyClosed.includes(stack[stack.length - 1])) {
+            output.push(`</${stack.pop()}>`);
+        }
+        output.push(`<${name}${attributes}>`);
+        stack.push(name);
+    }
+
+    while (stack.length > 0) {
+        output.push(`</${stack.pop()}>`);
+    }
+    return output.join('');
+}
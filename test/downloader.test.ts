@@ -0,0 +1,148 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import fs from 'fs-extra';
+import path from 'path';
+import { Downloader } from '../src/downloader.js';
+import { createConsoleLogger } from '../src/logger.js';
+
+const CONTENT = 'abcdefghijklmnopqrstuvwxyz';
+
+describe('Asset downloads', () => {
+    const ranges: Array<string | undefined> = [];
+    let server: http.Server;
+    let baseUrl: string;
+    let dir: string;
+
+    function downloader() {
+        return new Downloader(createConsoleLogger({ silent: true }), { retries: 0 });
+    }
+
+    before(async () => {
+        server = http.createServer((req, res) => {
+            ranges.push(req.headers.range);
+            const start = Number(/^bytes=(\d+)-$/.exec(req.headers.range ?? '')?.[1] ?? 0);
+            if (req.url === '/file.bin') {
+                if (!req.headers.range) {
+                    res.writeHead(200, { 'Content-Length': CONTENT.length });
+                    res.end(CONTENT);
+                } else if (start >= CONTENT.length) {
+                    res.writeHead(416, { 'Content-Range': `bytes */${CONTENT.length}` });
+                    res.end();
+                } else {
+                    res.writeHead(206, { 'Content-Range': `bytes ${start}-${CONTENT.length - 1}/${CONTENT.length}`, 'Content-Length': CONTENT.length - start });
+                    res.end(CONTENT.slice(start));
+                }
+                return;
+            }
+            if (req.url === '/from-start.bin') {
+                // Answers every request with the whole file as a range
+                res.writeHead(206, { 'Content-Range': `bytes 0-${CONTENT.length - 1}/${CONTENT.length}`, 'Content-Length': CONTENT.length });
+                res.end(CONTENT);
+                return;
+            }
+            if (req.url === '/off-by-three.bin') {
+                res.writeHead(206, { 'Content-Range': `bytes 3-${CONTENT.length - 1}/${CONTENT.length}`, 'Content-Length': CONTENT.length - 3 });
+                res.end(CONTENT.slice(3));
+                return;
+            }
+            res.writeHead(404);
+            res.end();
+        });
+        server.listen(0, '127.0.0.1');
+        await once(server, 'listening');
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(() => {
+        server.close();
+    });
+
+    beforeEach(async () => {
+        ranges.length = 0;
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skool-assets-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(dir);
+    });
+
+    it('completes a truncated file left on disk', async () => {
+        const outputPath = path.join(dir, 'file.bin');
+        await fs.writeFile(outputPath, CONTENT.slice(0, 10));
+
+        await downloader().downloadAsset(`${baseUrl}/file.bin`, outputPath);
+
+        assert.equal(await fs.readFile(outputPath, 'utf8'), CONTENT);
+        assert.deepEqual(ranges, ['bytes=10-']);
+        assert.equal(await fs.pathExists(`${outputPath}.part`), false);
+
+        // Finished downloads are recorded, so the next run doesn't ask again
+        await downloader().downloadAsset(`${baseUrl}/file.bin`, outputPath);
+        assert.equal(ranges.length, 1);
+    });
+
+    it('keeps an unrecorded file the server says is complete', async () => {
+        const outputPath = path.join(dir, 'file.bin');
+        await fs.writeFile(outputPath, CONTENT);
+
+        const assets = downloader();
+        assert.equal(await assets.hasAsset(outputPath), false);
+        await assets.downloadAsset(`${baseUrl}/file.bin`, outputPath);
+
+        assert.deepEqual(ranges, [`bytes=${CONTENT.length}-`]);
+        assert.equal(await fs.readFile(outputPath, 'utf8'), CONTENT);
+        assert.equal(await assets.hasAsset(outputPath), true);
+    });
+
+    it('fetches a recorded file again once its size changes', async () => {
+        const outputPath = path.join(dir, 'file.bin');
+        const assets = downloader();
+        await assets.downloadAsset(`${baseUrl}/file.bin`, outputPath);
+        await fs.writeFile(outputPath, CONTENT.slice(0, 4));
+
+        assert.equal(await assets.hasAsset(outputPath), false);
+        await assets.downloadAsset(`${baseUrl}/file.bin`, outputPath);
+        assert.equal(await fs.readFile(outputPath, 'utf8'), CONTENT);
+    });
+
+    it('records parallel downloads into one folder', async () => {
+        const assets = downloader();
+        const names = ['a.bin', 'b.bin', 'c.bin'];
+        await Promise.all(names.map(name => assets.downloadAsset(`${baseUrl}/file.bin`, path.join(dir, name))));
+
+        for (const name of names) {
+            assert.equal(await assets.hasAsset(path.join(dir, name)), true, name);
+        }
+    });
+
+    it('starts over when a resumed request gets a different range', async () => {
+        const outputPath = path.join(dir, 'from-start.bin');
+        await fs.writeFile(`${outputPath}.part`, 'abcde');
+
+        await downloader().downloadAsset(`${baseUrl}/from-start.bin`, outputPath);
+
+        assert.equal(await fs.readFile(outputPath, 'utf8'), CONTENT);
+        assert.deepEqual(ranges, ['bytes=5-', undefined]);
+    });
+
+    it('gives up on a server that never sends the range asked for', async () => {
+        const outputPath = path.join(dir, 'off-by-three.bin');
+        await fs.writeFile(`${outputPath}.part`, 'abcde');
+
+        await assert.rejects(downloader().downloadAsset(`${baseUrl}/off-by-three.bin`, outputPath), /Unexpected range/);
+        assert.equal(await fs.pathExists(outputPath), false);
+    });
+
+    it('leaves an unrecorded file in place when the download fails', async () => {
+        const outputPath = path.join(dir, 'missing.bin');
+        await fs.writeFile(outputPath, 'old');
+
+        await assert.rejects(downloader().downloadAsset(`${baseUrl}/missing.bin`, outputPath), /404/);
+        assert.equal(await fs.readFile(outputPath, 'utf8'), 'old');
+        assert.equal(await fs.pathExists(`${outputPath}.part`), false);
+    });
+});
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import zlib from 'node:zlib';
+import { toXhtml } from '../src/xhtml.js';
+import { createZip } from '../src/zip.js';
+
+/** Reads the local file header at `offset`, as an EPUB reader would. */
+function readLocalEntry(zip: Buffer, offset: number) {
+    assert.equal(zip.readUInt32LE(offset), 0x04034b50);
+    const method = zip.readUInt16LE(offset + 8);
+    const crc = zip.readUInt32LE(offset + 14);
+    const compressedSize = zip.readUInt32LE(offset + 18);
+    const size = zip.readUInt32LE(offset + 22);
+    const nameLength = zip.readUInt16LE(offset + 26);
+    const extraLength = zip.readUInt16LE(offset + 28);
+    const nameStart = offset + 30;
+    const dataStart = nameStart + nameLength + extraLength;
+    return {
+        method,
+        crc,
+        compressedSize,
+        size,
+        name: zip.toString('utf8', nameStart, nameStart + nameLength),
+        body: zip.subarray(dataStart, dataStart + compressedSize),
+        next: dataStart + compressedSize
+    };
+}
+
+describe('EPUB container', () => {
+    it('stores mimetype first and uncompressed', () => {
+        const chapter = '<html><body>' + 'Lesson text. '.repeat(50) + '</body></html>';
+        const zip = createZip([
+            { name: 'mimetype', data: 'application/epub+zip', store: true },
+            { name: 'OEBPS/chapter.xhtml', data: chapter }
+        ]);
+
+        const first = readLocalEntry(zip, 0);
+        assert.equal(first.name, 'mimetype');
+        assert.equal(first.method, 0);
+        assert.equal(first.compressedSize, 20);
+        assert.equal(first.size, 20);
+        assert.equal(first.body.toString('utf8'), 'application/epub+zip');
+        // CRC-32 of "application/epub+zip"
+        assert.equal(first.crc, 0x2cab616f);
+
+        const second = readLocalEntry(zip, first.next);
+        assert.equal(second.name, 'OEBPS/chapter.xhtml');
+        assert.equal(second.method, 8);
+        assert.equal(second.size, Buffer.byteLength(chapter));
+        assert.ok(second.compressedSize < second.size);
+        assert.equal(zlib.inflateRawSync(second.body).toString('utf8'), chapter);
+
+        // End of central directory points back at both entries
+        const end = zip.length - 22;
+        assert.equal(zip.readUInt32LE(end), 0x06054b50);
+        assert.equal(zip.readUInt16LE(end + 10), 2);
+        assert.equal(zip.readUInt32LE(end + 16), second.next);
+    });
+});
+
+describe('XHTML normalization', () => {
+    it('self-closes void elements', () => {
+        assert.equal(toXhtml('<p>a<br>b<BR/>c</p>'), '<p>a<br/>b<br/>c</p>');
+        assert.equal(toXhtml('<img src=a.png alt="A"><hr>'), '<img src="a.png" alt="A"/><hr/>');
+        assert.equal(toXhtml('<input type="checkbox" disabled checked>'), '<input type="checkbox" disabled="disabled" checked="checked"/>');
+    });
+
+    it('rewrites entities XML does not know', () => {
+        assert.equal(toXhtml('<p>a&nbsp;b &mdash; &copy;</p>'), '<p>a&#160;b &#8212; &#169;</p>');
+        assert.equal(toXhtml('<p>&amp; &lt; &#39; &#x2014;</p>'), '<p>&amp; &lt; &#39; &#x2014;</p>');
+        assert.equal(toXhtml('<p>Q&A &bogus; a < b</p>'), '<p>Q&amp;A &amp;bogus; a &lt; b</p>');
+        assert.equal(toXhtml('<a href="/p?a=1&b=2&nbsp;">x</a>'), '<a href="/p?a=1&amp;b=2&#160;">x</a>');
+    });
+
+    it('closes open tags and drops scripts', () => {
+        assert.equal(toXhtml('<ul><li>a<li>b</ul>'), '<ul><li>a</li><li>b</li></ul>');
+        assert.equal(toXhtml('<div><p>One<p>Two'), '<div><p>One</p><p>Two</p></div>');
+        assert.equal(toXhtml('<p>x</span></p><script>alert(1)</script>'), '<p>x</p>');
+    });
+});
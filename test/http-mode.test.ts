@@ -0,0 +1,146 @@
+import assert from 'node:assert/strict';
+import { once } from 'node:events';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import { after, before, describe, it } from 'node:test';
+import { fileURLToPath } from 'node:url';
+import fs from 'fs-extra';
+import path from 'path';
+import { extractNextData, SkoolHttpClient } from '../src/http-client.js';
+import { createConsoleLogger } from '../src/logger.js';
+import { planCourse } from '../src/plan.js';
+import { Scraper } from '../src/scraper.js';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+/** Saved Skool pages by path, as the real site serves them to a logged-in member. */
+const PAGES: Record<string, string> = {
+    '/test-group/classroom': 'classroom.html',
+    '/test-group/classroom/intro-course': 'course.html'
+};
+
+type StubRequest = { method: string; url: string; cookie?: string; referer?: string };
+
+describe('HTTP fetch mode', () => {
+    const requests: StubRequest[] = [];
+    let server: http.Server;
+    let baseUrl: string;
+    let storageStatePath: string;
+
+    before(async () => {
+        server = http.createServer(async (req, res) => {
+            const url = new URL(req.url ?? '/', 'http://stub');
+            requests.push({ method: req.method ?? 'GET', url: req.url ?? '/', cookie: req.headers.cookie, referer: req.headers.referer });
+
+            const page = PAGES[url.pathname];
+            if (req.method === 'GET' && page) {
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(await fs.readFile(path.join(FIXTURES_DIR, page)));
+                return;
+            }
+            if (req.method === 'GET' && url.pathname === '/posts/p1/comments') {
+                // 105 comments: a full first page with a cursor to the rest
+                const first = !url.searchParams.get('cursor');
+                const ids = first ? Array.from({ length: 100 }, (_, i) => i) : [100, 101, 102, 103, 104];
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({
+                    postTree: { children: ids.map(i => ({ post: { id: `c${i}`, metadata: { content: `Comment ${i}` } }, children: [] })) },
+                    nextCursor: first ? 'page-2' : undefined
+                }));
+                return;
+            }
+            const file = /^\/files\/([^/]+)\/download-url$/.exec(url.pathname);
+            if (req.method === 'POST' && file) {
+                res.writeHead(200, { 'Content-Type': 'text/plain' });
+                res.end(`https://files.example.com/${file[1]}.pdf?signed=1\n`);
+                return;
+            }
+            res.writeHead(404);
+            res.end('Not found');
+        });
+        server.listen(0, '127.0.0.1');
+        await once(server, 'listening');
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+        storageStatePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'skool-test-')), 'storage_state.json');
+        await fs.writeJson(storageStatePath, {
+            cookies: [{ name: 'auth_token', value: 'secret', domain: '127.0.0.1', path: '/' }]
+        });
+    });
+
+    after(async () => {
+        server.close();
+        await fs.remove(path.dirname(storageStatePath));
+    });
+
+    it('extracts __NEXT_DATA__ from saved pages', async () => {
+        const html = await fs.readFile(path.join(FIXTURES_DIR, 'course.html'), 'utf8');
+        const nextData = extractNextData(html);
+        assert.equal(nextData?.props?.pageProps?.course?.course?.metadata?.title, 'Intro Course');
+
+        assert.equal(extractNextData('<html><body>Log in</body></html>'), null);
+        assert.equal(extractNextData('<script id="__NEXT_DATA__" type="application/json">{broken</script>'), null);
+    });
+
+    it('fetches pages with the saved cookies', async () => {
+        const client = new SkoolHttpClient({ storageStatePath, baseUrl });
+        const nextData = await client.fetchNextData(`${baseUrl}/test-group/classroom`);
+
+        assert.equal(nextData?.props?.pageProps?.currentGroup?.metadata?.name, 'Test Group');
+        const request = requests.at(-1)!;
+        assert.equal(request.cookie, 'auth_token=secret');
+        assert.equal(request.referer, `${baseUrl}/`);
+
+        await assert.rejects(client.fetchNextData(`${baseUrl}/test-group/missing`), /404/);
+    });
+
+    it('reads the classroom, course and lessons without a browser', async () => {
+        const scraper = new Scraper(createConsoleLogger({ silent: true }), { fetchMode: 'http', baseUrl, apiUrl: baseUrl, retries: 0 });
+        try {
+            const library = await scraper.parseCourseLibrary(`${baseUrl}/test-group/classroom/intro-course`);
+            assert.equal(library.groupName, 'Test Group');
+            assert.deepEqual(library.courses.map(course => [course.title, course.hasAccess]), [['Intro Course', true], ['Locked Course', false]]);
+
+            const course = await scraper.parseClassroom(`${baseUrl}/test-group/classroom/intro-course`);
+            assert.equal(course.courseName, 'Intro Course');
+            assert.deepEqual(course.modules.map(module => [module.title, module.lessons.map(lesson => lesson.id)]), [
+                ['Getting Started', ['l1', 'l2']],
+                ['Lessons', ['l3']]
+            ]);
+
+            const lesson = await scraper.extractLessonData(course.modules[0].lessons[0].url);
+            assert.equal(lesson.videoLink, 'https://www.youtube.com/watch?v=test123');
+            assert.match(lesson.contentHtml ?? '', /Hello and welcome/);
+            assert.deepEqual(lesson.resources?.map(resource => resource.downloadUrl), [
+                'https://files.example.com/f1.pdf?signed=1',
+                'https://example.com/slides'
+            ]);
+            assert.ok(requests.some(request => request.method === 'POST' && request.url === '/files/f1/download-url?expire=28800'));
+
+            const discussed = await scraper.extractLessonData(course.modules[0].lessons[1].url, { comments: true });
+            assert.equal(discussed.comments?.length, 105);
+            assert.equal(discussed.comments?.at(-1)?.id, 'c104');
+            assert.ok(requests.some(request => request.url === '/posts/p1/comments?group-id=g1&limit=100&cursor=page-2'));
+        } finally {
+            await scraper.close();
+        }
+    });
+
+    it('plans only the lesson a lesson URL points at', async () => {
+        const logger = createConsoleLogger({ silent: true });
+        const outputDir = path.join(path.dirname(storageStatePath), 'course');
+        const lessonUrl = `${baseUrl}/test-group/classroom/intro-course?md=l2`;
+
+        const lessonPlan = await planCourse({ url: lessonUrl, outputDir, fetchMode: 'http', logger });
+        assert.deepEqual(lessonPlan.modules.map(module => [module.title, module.lessons.map(lesson => lesson.lessonId)]), [['Getting Started', ['l2']]]);
+        assert.equal(lessonPlan.lessonsCount, 1);
+
+        assert.equal(await fs.pathExists(outputDir), false);
+
+        await assert.rejects(
+            planCourse({ url: `${baseUrl}/test-group/classroom/intro-course?md=nope`, outputDir, fetchMode: 'http', logger }),
+            /Could not find lesson with ID nope/
+        );
+    });
+});
@@ -0,0 +1,104 @@
+import assert from 'node:assert/strict';
+import os from 'node:os';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import fs from 'fs-extra';
+import path from 'path';
+import { loadLocalLessons, reconcileLessonFolders } from '../src/index.js';
+import { createConsoleLogger } from '../src/logger.js';
+
+const logger = createConsoleLogger({ silent: true });
+
+describe('Lesson folder reconciliation', () => {
+    let courseDir: string;
+
+    /** Writes a downloaded lesson: its manifest and a stand-in video holding the lesson id. */
+    async function addLesson(relativeDir: string, lessonId: string) {
+        const lessonDir = path.join(courseDir, relativeDir);
+        await fs.ensureDir(lessonDir);
+        await fs.writeJson(path.join(lessonDir, 'lesson.json'), { lessonId, title: path.basename(relativeDir) });
+        await fs.writeFile(path.join(lessonDir, 'video.mp4'), lessonId);
+    }
+
+    async function videoAt(relativeDir: string) {
+        return fs.readFile(path.join(courseDir, relativeDir, 'video.mp4'), 'utf8');
+    }
+
+    function expected(entries: Record<string, string>) {
+        return new Map(Object.entries(entries).map(([lessonId, dir]) => [lessonId, path.join(courseDir, dir)]));
+    }
+
+    beforeEach(async () => {
+        courseDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skool-course-'));
+    });
+
+    afterEach(async () => {
+        await fs.remove(courseDir);
+    });
+
+    it('moves a renamed lesson and keeps its files', async () => {
+        await addLesson('1-Intro/1-Old title', 'l1');
+
+        const { moved, archived } = await reconcileLessonFolders(
+            courseDir, expected({ l1: '1-Intro/1-New title' }), await loadLocalLessons(courseDir), true, logger
+        );
+
+        assert.deepEqual(moved.map(local => local.manifest.lessonId), ['l1']);
+        assert.equal(archived.length, 0);
+        assert.equal(await videoAt('1-Intro/1-New title'), 'l1');
+        assert.equal(await fs.pathExists(path.join(courseDir, '1-Intro/1-Old title')), false);
+        assert.equal(await fs.pathExists(path.join(courseDir, '.relocating')), false);
+    });
+
+    it('archives lessons removed upstream and drops emptied modules', async () => {
+        await addLesson('1-Intro/1-Welcome', 'l1');
+        await addLesson('2-Extras/1-Gone', 'l2');
+
+        const { moved, archived } = await reconcileLessonFolders(
+            courseDir, expected({ l1: '1-Intro/1-Welcome' }), await loadLocalLessons(courseDir), true, logger
+        );
+
+        assert.equal(moved.length, 0);
+        assert.deepEqual(archived.map(local => [local.manifest.lessonId, local.archived]), [['l2', true]]);
+        assert.equal(await videoAt('_archived/1-Gone'), 'l2');
+        assert.equal(await fs.pathExists(path.join(courseDir, '2-Extras')), false);
+
+        const reloaded = await loadLocalLessons(courseDir);
+        assert.equal(reloaded.get('l2')?.archived, true);
+    });
+
+    it('keeps removed lessons in place when asked not to archive', async () => {
+        await addLesson('1-Intro/1-Welcome', 'l1');
+
+        const { archived } = await reconcileLessonFolders(courseDir, expected({}), await loadLocalLessons(courseDir), false, logger);
+
+        assert.equal(archived.length, 0);
+        assert.equal(await videoAt('1-Intro/1-Welcome'), 'l1');
+    });
+
+    it('swaps two lessons that trade folder names', async () => {
+        await addLesson('1-Intro/1-First', 'a');
+        await addLesson('1-Intro/2-Second', 'b');
+
+        const { moved } = await reconcileLessonFolders(
+            courseDir, expected({ a: '1-Intro/2-Second', b: '1-Intro/1-First' }), await loadLocalLessons(courseDir), true, logger
+        );
+
+        assert.deepEqual(moved.map(local => local.manifest.lessonId).sort(), ['a', 'b']);
+        assert.equal(await videoAt('1-Intro/1-First'), 'b');
+        assert.equal(await videoAt('1-Intro/2-Second'), 'a');
+        assert.equal(await fs.pathExists(path.join(courseDir, '_archived')), false);
+        assert.equal(await fs.pathExists(path.join(courseDir, '.relocating')), false);
+    });
+
+    it('restores an archived lesson that is back upstream', async () => {
+        await addLesson('_archived/3-Returning', 'l3');
+
+        const { moved } = await reconcileLessonFolders(
+            courseDir, expected({ l3: '1-Intro/3-Returning' }), await loadLocalLessons(courseDir), true, logger
+        );
+
+        assert.deepEqual(moved.map(local => [local.manifest.lessonId, local.archived]), [['l3', false]]);
+        assert.equal(await videoAt('1-Intro/3-Returning'), 'l3');
+        assert.equal(await fs.pathExists(path.join(courseDir, '_archived')), false);
+    });
+});
@@ -0,0 +1,154 @@
+import assert from 'node:assert/strict';
+import { describe, it, type TestContext } from 'node:test';
+import { classifyError, HttpStatusError, retryAfterMs, withRetry, type RetryOptions } from '../src/retry.js';
+
+/** Axios-style error with a response status and headers. */
+function httpError(status: number, headers: Record<string, string> = {}) {
+    return Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, headers } });
+}
+
+function codeError(code: string) {
+    return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+/**
+ * Runs `withRetry` with `setTimeout` mocked, skipping each wait as soon as it starts. Returns the
+ * result or error and the delays it asked for.
+ */
+async function runRetries(
+    t: TestContext,
+    fn: (attempt: number) => Promise<string>,
+    options: RetryOptions = {}
+): Promise<{ value?: string; error?: unknown; delays: number[] }> {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const delays: number[] = [];
+    const outcome = await withRetry(fn, {
+        ...options,
+        onRetry: info => {
+            delays.push(info.delayMs);
+            // The wait is scheduled right after this returns
+            queueMicrotask(() => t.mock.timers.tick(info.delayMs));
+        }
+    }).then(value => ({ value }), (error: unknown) => ({ error }));
+    return { ...outcome, delays };
+}
+
+describe('Error classification', () => {
+    it('retries timeouts, rate limits and server errors', () => {
+        for (const status of [408, 429, 500, 502, 503]) {
+            assert.equal(classifyError(httpError(status)), 'transient', String(status));
+        }
+        assert.equal(classifyError(new HttpStatusError('HTTP 503 loading page', 503)), 'transient');
+        assert.equal(classifyError(new Error('ERROR: HTTP Error 429: Too Many Requests')), 'transient');
+    });
+
+    it('gives up on other HTTP errors', () => {
+        for (const status of [400, 401, 403, 404, 410]) {
+            assert.equal(classifyError(httpError(status)), 'permanent', String(status));
+        }
+        assert.equal(classifyError(new Error('ERROR: HTTP Error 403: Forbidden')), 'permanent');
+    });
+
+    it('retries dropped connections and timeouts', () => {
+        for (const code of ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ERR_STREAM_PREMATURE_CLOSE']) {
+            assert.equal(classifyError(codeError(code)), 'transient', code);
+        }
+        assert.equal(classifyError(Object.assign(new Error('Timeout 30000ms exceeded.'), { name: 'TimeoutError' })), 'transient');
+        assert.equal(classifyError(new Error('page.goto: net::ERR_CONNECTION_CLOSED')), 'transient');
+        assert.equal(classifyError(new Error('socket hang up')), 'transient');
+        assert.equal(classifyError(new Error('Incomplete download of x: got 1 of 2 bytes')), 'transient');
+    });
+
+    it('treats bugs and unknown failures as permanent', () => {
+        assert.equal(classifyError(codeError('ENOENT')), 'permanent');
+        assert.equal(classifyError(new TypeError('Cannot read properties of undefined (reading "timeout")')), 'permanent');
+        assert.equal(classifyError(new SyntaxError('Unexpected token < in JSON')), 'permanent');
+        assert.equal(classifyError(new Error('Could not find lesson')), 'permanent');
+        assert.equal(classifyError('temporarily unavailable'), 'transient');
+    });
+});
+
+describe('Retry-After', () => {
+    it('reads seconds and HTTP dates', () => {
+        assert.equal(retryAfterMs(httpError(429, { 'retry-after': '7' })), 7000);
+        assert.equal(retryAfterMs(new HttpStatusError('HTTP 503', 503, '0')), 0);
+
+        const waited = retryAfterMs(httpError(503, { 'retry-after': new Date(Date.now() + 90_000).toUTCString() }));
+        assert.ok(waited !== undefined && waited > 85_000 && waited <= 90_000, String(waited));
+        assert.equal(retryAfterMs(httpError(503, { 'retry-after': new Date(Date.now() - 90_000).toUTCString() })), 0);
+    });
+
+    it('ignores missing or unreadable values', () => {
+        assert.equal(retryAfterMs(httpError(429)), undefined);
+        assert.equal(retryAfterMs(httpError(429, { 'retry-after': 'soon' })), undefined);
+        assert.equal(retryAfterMs(new Error('plain')), undefined);
+    });
+});
+
+describe('withRetry', () => {
+    it('makes the configured number of attempts', async t => {
+        let calls = 0;
+        const { error, delays } = await runRetries(t, async () => {
+            calls++;
+            throw codeError('ECONNRESET');
+        }, { retries: 3 });
+
+        assert.equal(calls, 4);
+        assert.equal((error as any).code, 'ECONNRESET');
+        assert.equal(delays.length, 3);
+        // Exponential backoff: half to all of 1s, 2s, 4s
+        delays.forEach((delay, index) => {
+            const ceiling = 1000 * 2 ** index;
+            assert.ok(delay >= ceiling / 2 && delay <= ceiling, `${delay} for attempt ${index + 1}`);
+        });
+    });
+
+    it('returns the first success', async t => {
+        const { value, delays } = await runRetries(t, async attempt => {
+            if (attempt < 3) throw httpError(502);
+            return `attempt ${attempt}`;
+        });
+        assert.equal(value, 'attempt 3');
+        assert.equal(delays.length, 2);
+    });
+
+    it('throws permanent errors right away', async t => {
+        let calls = 0;
+        const { error, delays } = await runRetries(t, async () => {
+            calls++;
+            throw httpError(404);
+        }, { retries: 5 });
+
+        assert.equal(calls, 1);
+        assert.equal((error as any).response.status, 404);
+        assert.equal(delays.length, 0);
+    });
+
+    it('waits as long as Retry-After asks, up to five minutes', async t => {
+        const { delays } = await runRetries(t, async attempt => {
+            if (attempt === 1) throw httpError(429, { 'retry-after': '45' });
+            if (attempt === 2) throw httpError(503, { 'retry-after': '3600' });
+            return 'ok';
+        });
+        assert.deepEqual(delays, [45_000, 5 * 60 * 1000]);
+    });
+
+    it('never waits less than the backoff for a short Retry-After', async t => {
+        const { delays } = await runRetries(t, async attempt => {
+            if (attempt === 1) throw httpError(429, { 'retry-after': '0' });
+            return 'ok';
+        });
+        assert.equal(delays.length, 1);
+        assert.ok(delays[0] >= 500 && delays[0] <= 1000, String(delays[0]));
+    });
+
+    it('runs once with no retries', async t => {
+        let calls = 0;
+        const { error } = await runRetries(t, async () => {
+            calls++;
+            throw httpError(503);
+        }, { retries: 0 });
+        assert.equal(calls, 1);
+        assert.ok(error);
+    });
+});
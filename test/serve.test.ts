@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import os from 'node:os';
+import { after, before, describe, it } from 'node:test';
+import fs from 'fs-extra';
+import path from 'path';
+import { createConsoleLogger } from '../src/logger.js';
+import { REGENERATE_PATH, startServer } from '../src/serve.js';
+
+type Reply = { status: number; headers: http.IncomingHttpHeaders; body: string };
+
+describe('Local server', () => {
+    let rootDir: string;
+    let server: http.Server;
+    let port: number;
+
+    /** Sends a request with exactly the headers given, including `Host`, which fetch won't let us set. */
+    function request(method: string, urlPath: string, headers: http.OutgoingHttpHeaders = {}): Promise<Reply> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({ host: '127.0.0.1', port, method, path: urlPath, headers: { host: `localhost:${port}`, ...headers } }, res => {
+                let body = '';
+                res.setEncoding('utf8');
+                res.on('data', chunk => body += chunk);
+                res.on('end', () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body }));
+            });
+            req.on('error', reject);
+            req.end();
+        });
+    }
+
+    before(async () => {
+        rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skool-serve-'));
+        await fs.writeFile(path.join(rootDir, 'clip.mp4'), '0123456789');
+        await fs.writeJson(path.join(rootDir, '.course.json'), { courseUrl: 'https://www.skool.com/secret' });
+        await fs.outputFile(path.join(rootDir, '.theme', 'site.css'), 'body {}');
+        ({ server } = await startServer({ rootDir, port: 0, logger: createConsoleLogger({ silent: true }) }));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    after(async () => {
+        server.close();
+        await fs.remove(rootDir);
+    });
+
+    it('serves byte ranges', async () => {
+        const whole = await request('GET', '/clip.mp4');
+        assert.equal(whole.status, 200);
+        assert.equal(whole.body, '0123456789');
+        assert.equal(whole.headers['content-type'], 'video/mp4');
+
+        const middle = await request('GET', '/clip.mp4', { range: 'bytes=2-4' });
+        assert.equal(middle.status, 206);
+        assert.equal(middle.body, '234');
+        assert.equal(middle.headers['content-range'], 'bytes 2-4/10');
+
+        const suffix = await request('GET', '/clip.mp4', { range: 'bytes=-3' });
+        assert.equal(suffix.status, 206);
+        assert.equal(suffix.body, '789');
+        assert.equal(suffix.headers['content-range'], 'bytes 7-9/10');
+
+        const openEnded = await request('GET', '/clip.mp4', { range: 'bytes=8-' });
+        assert.equal(openEnded.body, '89');
+    });
+
+    it('refuses ranges outside the file', async () => {
+        for (const range of ['bytes=10-', 'bytes=5-2']) {
+            const reply = await request('GET', '/clip.mp4', { range });
+            assert.equal(reply.status, 416, range);
+            assert.equal(reply.headers['content-range'], 'bytes */10');
+        }
+        // Malformed headers are ignored and the whole file is sent
+        assert.equal((await request('GET', '/clip.mp4', { range: 'bytes=1-2,4-5' })).status, 200);
+    });
+
+    it('hides dot files but serves theme assets', async () => {
+        assert.equal((await request('GET', '/.course.json')).status, 404);
+        assert.equal((await request('GET', '/%2Ecourse.json')).status, 404);
+        assert.equal((await request('GET', '/.theme/site.css')).body, 'body {}');
+        assert.equal((await request('GET', '/../etc/passwd')).status, 404);
+    });
+
+    it('only regenerates for requests from its own pages', async () => {
+        const crossSite = await request('POST', REGENERATE_PATH, { origin: 'https://evil.example' });
+        assert.equal(crossSite.status, 403);
+
+        const rebound = await request('POST', REGENERATE_PATH, { host: `evil.example:${port}` });
+        assert.equal(rebound.status, 403);
+
+        const sameOrigin = await request('POST', REGENERATE_PATH, { origin: `http://localhost:${port}` });
+        assert.equal(sameOrigin.status, 200);
+        assert.deepEqual(JSON.parse(sameOrigin.body), { courses: 0, groups: 0 });
+
+        const ipv6 = await request('POST', REGENERATE_PATH, { host: `[::1]:${port}`, origin: `http://[::1]:${port}` });
+        assert.equal(ipv6.status, 200);
+
+        assert.equal((await request('GET', REGENERATE_PATH)).status, 405);
+    });
+
+    const lanIpv6 = Object.values(os.networkInterfaces()).flat()
+        .find(entry => entry && entry.family === 'IPv6' && !entry.internal && !entry.address.startsWith('fe80:'))?.address;
+
+    it('accepts this machine\'s IPv6 addresses as its own host', { skip: !lanIpv6 && 'no IPv6 interface' }, async () => {
+        const reply = await request('POST', REGENERATE_PATH, { host: `[${lanIpv6}]:${port}`, origin: `http://[${lanIpv6}]:${port}` });
+        assert.equal(reply.status, 200);
+    });
+});
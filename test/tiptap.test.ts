@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createConsoleLogger, type Logger } from '../src/logger.js';
+import { isTipTapBody, parseTipTapBody, renderTipTap, type TipTapNode } from '../src/tiptap.js';
+
+const silent = createConsoleLogger({ silent: true });
+
+function render(nodes: TipTapNode[]) {
+    return renderTipTap(nodes, silent);
+}
+
+function text(value: string, marks?: TipTapNode['marks']): TipTapNode {
+    return { type: 'text', text: value, marks };
+}
+
+function paragraph(...content: TipTapNode[]): TipTapNode {
+    return { type: 'paragraph', content };
+}
+
+describe('TipTap rendering', () => {
+    it('parses [v2] bodies', () => {
+        assert.equal(isTipTapBody('[v2][]'), true);
+        assert.equal(isTipTapBody('<p>Plain</p>'), false);
+        assert.deepEqual(parseTipTapBody('[v2][{"type":"paragraph"}]'), [{ type: 'paragraph' }]);
+        assert.deepEqual(parseTipTapBody('[v2]{"type":"doc","content":[{"type":"hardBreak"}]}'), [{ type: 'hardBreak' }]);
+        assert.throws(() => parseTipTapBody('[v2][{'));
+    });
+
+    it('renders text blocks', () => {
+        assert.equal(render([paragraph(text('Hi'), { type: 'hardBreak' }, text('there'))]), '<p>Hi<br/>there</p>');
+        assert.equal(render([{ type: 'paragraph', attrs: { textAlign: 'center' }, content: [text('Mid')] }]), '<p style="text-align: center">Mid</p>');
+        assert.equal(render([{ type: 'heading', attrs: { level: 3 }, content: [text('Title')] }]), '<h3>Title</h3>');
+        assert.equal(render([{ type: 'heading', attrs: { level: 9 }, content: [text('Deep')] }]), '<h6>Deep</h6>');
+        assert.equal(render([{ type: 'blockquote', content: [paragraph(text('Quote'))] }]), '<blockquote><p>Quote</p></blockquote>');
+        assert.equal(render([{ type: 'horizontalRule' }]), '<hr/>');
+    });
+
+    it('renders lists', () => {
+        const item = (value: string): TipTapNode => ({ type: 'listItem', content: [paragraph(text(value))] });
+        assert.equal(render([{ type: 'bulletList', content: [item('a'), item('b')] }]), '<ul><li><p>a</p></li><li><p>b</p></li></ul>');
+        assert.equal(render([{ type: 'orderedList', attrs: { start: 1 }, content: [item('a')] }]), '<ol><li><p>a</p></li></ol>');
+        assert.equal(render([{ type: 'orderedList', attrs: { start: 4 }, content: [item('d')] }]), '<ol start="4"><li><p>d</p></li></ol>');
+        assert.equal(
+            render([{ type: 'taskList', content: [{ type: 'taskItem', attrs: { checked: true }, content: [paragraph(text('Done'))] }] }]),
+            '<ul class="task-list"><li class="task-item"><input type="checkbox" disabled checked/><div><p>Done</p></div></li></ul>'
+        );
+    });
+
+    it('renders code blocks with escaped code', () => {
+        assert.equal(
+            render([{ type: 'codeBlock', attrs: { language: 'ts' }, content: [text('if (a < b && c) {}')] }]),
+            '<pre><code class="language-ts">if (a &lt; b &amp;&amp; c) {}</code></pre>'
+        );
+        assert.equal(render([{ type: 'codeBlock', content: [text('x')] }]), '<pre><code>x</code></pre>');
+    });
+
+    it('renders tables', () => {
+        const table: TipTapNode = {
+            type: 'table',
+            content: [
+                { type: 'tableRow', content: [{ type: 'tableHeader', attrs: { colspan: 2 }, content: [paragraph(text('Head'))] }] },
+                { type: 'tableRow', content: [{ type: 'tableCell', attrs: { colspan: 1, rowspan: 2 }, content: [paragraph(text('Cell'))] }] }
+            ]
+        };
+        assert.equal(
+            render([table]),
+            '<div class="table-wrapper"><table><tbody><tr><th colspan="2"><p>Head</p></th></tr><tr><td rowspan="2"><p>Cell</p></td></tr></tbody></table></div>'
+        );
+    });
+
+    it('renders media, embeds, mentions and emoji', () => {
+        assert.equal(
+            render([{ type: 'image', attrs: { src: 'https://x.test/a.png', alt: 'A "quoted" alt', width: 300 } }]),
+            '<img src="https://x.test/a.png" alt="A &quot;quoted&quot; alt" width="300" />'
+        );
+        assert.equal(render([{ type: 'videoBlock', attrs: { url: 'https://x.test/v.mp4' } }]), '<video controls src="https://x.test/v.mp4"></video>');
+        assert.equal(
+            render([{ type: 'youtube', attrs: { src: 'https://www.youtube.com/embed/abc?a=1&b=2' } }]),
+            '<div class="embed"><iframe src="https://www.youtube.com/embed/abc?a=1&amp;b=2" frameborder="0" allowfullscreen></iframe></div>'
+        );
+        assert.equal(render([{ type: 'mention', attrs: { id: 'u1', label: 'Sam' } }]), '<span class="mention" data-id="u1">@Sam</span>');
+        assert.equal(render([{ type: 'emoji', attrs: { emoji: '🎉' } }]), '🎉');
+        assert.equal(render([{ type: 'emoji', attrs: { name: 'tada' } }]), '<span class="emoji">:tada:</span>');
+    });
+
+    it('keeps media without a source as raw JSON', () => {
+        assert.equal(render([{ type: 'image', attrs: {} }]), '<!-- tiptap:raw {"type":"image","attrs":{}} -->');
+    });
+
+    it('applies marks in order', () => {
+        assert.equal(render([text('b', [{ type: 'bold' }, { type: 'italic' }])]), '<em><strong>b</strong></em>');
+        assert.equal(
+            render([text('x', [{ type: 'underline' }, { type: 'strike' }, { type: 'code' }, { type: 'subscript' }, { type: 'superscript' }])]),
+            '<sup><sub><code><s><u>x</u></s></code></sub></sup>'
+        );
+        assert.equal(render([text('hl', [{ type: 'highlight', attrs: { color: '#ff0' } }])]), '<mark style="background-color: #ff0">hl</mark>');
+        assert.equal(render([text('red', [{ type: 'textStyle', attrs: { color: 'red' } }])]), '<span style="color: red">red</span>');
+        assert.equal(render([text('plain', [{ type: 'textStyle', attrs: {} }])]), 'plain');
+    });
+
+    it('renders links', () => {
+        assert.equal(
+            render([text('site', [{ type: 'link', attrs: { href: 'https://x.test/?a=1&b="2"' } }])]),
+            '<a href="https://x.test/?a=1&amp;b=&quot;2&quot;" target="_blank" rel="noopener noreferrer">site</a>'
+        );
+        assert.equal(
+            render([text('same', [{ type: 'link', attrs: { href: '/p', target: '_self' } }])]),
+            '<a href="/p" target="_self" rel="noopener noreferrer">same</a>'
+        );
+        assert.equal(render([text('nolink', [{ type: 'link', attrs: {} }])]), 'nolink');
+    });
+
+    it('escapes text and attributes', () => {
+        assert.equal(render([paragraph(text('<script>alert("x")</script> & more'))]), '<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; more</p>');
+        assert.equal(
+            render([{ type: 'mention', attrs: { id: '"><img>', label: '<b>' } }]),
+            '<span class="mention" data-id="&quot;&gt;&lt;img&gt;">@&lt;b&gt;</span>'
+        );
+    });
+
+    it('keeps unknown nodes as raw JSON and still renders their children', () => {
+        const warnings: string[] = [];
+        const logger: Logger = { ...silent, warn: message => warnings.push(message) };
+        const nodes: TipTapNode[] = [
+            { type: 'callout', attrs: { note: 'a--b' }, content: [paragraph(text('Inside'))] },
+            { type: 'callout', content: [] },
+            text('m', [{ type: 'sparkle' }])
+        ];
+
+        assert.equal(
+            renderTipTap(nodes, logger),
+            '<!-- tiptap:raw {"type":"callout","attrs":{"note":"a-\\u002db"}} --><p>Inside</p><!-- tiptap:raw {"type":"callout"} -->m'
+        );
+        // Each unknown type is reported once
+        assert.equal(warnings.length, 2);
+        assert.match(warnings[0], /node type "callout"/);
+        assert.match(warnings[1], /mark type "sparkle"/);
+    });
+});